@@ -0,0 +1,292 @@
+import { createReadStream, promises as fs, ReadStream } from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { CompareFn, Comparators } from "../utils/comparators";
+import { PriorityQueue } from "../data-structures/queue";
+import { Sorting } from "./sort";
+
+/**
+ * Options for ExternalSort.sort
+ * @template T The type of records to sort
+ */
+export interface ExternalSortOptions<T> {
+  /**
+   * Approximate number of bytes of records to buffer before a sorted run is
+   * spilled to disk (default 64 MiB). Each buffered record is estimated at
+   * twice the size of its serialized text, for the text itself and the
+   * record it was made from, plus a fixed allowance for object overhead.
+   * Records much larger in memory than as text exceed the budget accordingly.
+   */
+  memoryBudget?: number;
+  /** Directory in which a temporary directory for the runs is created (default os.tmpdir()) */
+  tempDir?: string;
+  /** Converts a record to a single line of text (default JSON.stringify) */
+  serialize?: (record: T) => string;
+  /** Parses a line produced by serialize back into a record (default JSON.parse) */
+  deserialize?: (line: string) => T;
+}
+
+/**
+ * A buffered record together with the line it is spilled as
+ * @internal
+ */
+interface BufferedRecord<T> {
+  record: T;
+  line: string;
+}
+
+/**
+ * The next unmerged record of a run during the k-way merge, with the line it
+ * was read from so that intermediate merges can write it out unchanged
+ * @internal
+ */
+interface RunHead<T> {
+  record: T;
+  line: string;
+  run: number;
+}
+
+/**
+ * An open run file: the file stream and the line reader on top of it
+ * @internal
+ */
+interface RunReader {
+  stream: ReadStream;
+  lines: readline.Interface;
+}
+
+/** @internal */
+const DEFAULT_MEMORY_BUDGET = 64 * 1024 * 1024;
+
+/**
+ * Estimated bytes taken by each buffered entry beyond its text: the
+ * BufferedRecord wrapper, the string header and the record's object header
+ * @internal
+ */
+const RECORD_OVERHEAD = 64;
+
+/**
+ * Number of lines written to a run file per write call
+ * @internal
+ */
+const SPILL_BATCH = 4096;
+
+/**
+ * Maximum number of runs merged at once. More runs are first merged in
+ * groups of this size into longer runs, so that the number of open files
+ * (and of read buffers, which sit outside the memory budget) stays bounded.
+ * @internal
+ */
+const MERGE_WIDTH = 64;
+
+/**
+ * External merge sort for record streams too large to hold in memory.
+ * Unlike the rest of the library this relies on Node's fs module, to
+ * store sorted runs in temporary files.
+ */
+export class ExternalSort {
+  /**
+   * Sorts a stream of records. Records are buffered until their estimated
+   * size reaches the memory budget; the buffer is then sorted and spilled
+   * to a temporary file, one serialized record per line. Once the input is
+   * exhausted, the runs are combined by a k-way merge on a PriorityQueue
+   * that holds the next record of each run. At most 64 runs are merged at
+   * once: with more, groups of runs are first merged into longer runs, in as
+   * many passes as needed. Input that fits within the
+   * budget is sorted in memory without touching the disk.
+   * Time Complexity: O(n log n)
+   * Space Complexity: O(memoryBudget) in memory, plus a read buffer for each of up to 64 open runs; O(n) on disk
+   * Stable: Yes - runs are sorted stably, and ties between runs go to the earlier run
+   *
+   * Temporary files are removed once the output is exhausted, when the
+   * consumer stops early, or when the source or a callback throws.
+   *
+   * @template T The type of records to sort
+   * @param source - Records to sort, as an async or sync iterable
+   * @param compare - Optional comparison function. Defaults to Comparators.natural
+   * @param options - Optional memory budget, temporary directory and record serialization
+   * @returns An async iterable of the records in sorted order
+   * @throws {TypeError} If compare, serialize or deserialize is not a function
+   * @throws {Error} If the memory budget is not a positive number
+   * @example
+   * ```typescript
+   * const entries = ExternalSort.sort(readLogEntries("app.log"), Comparators.by((entry) => entry.timestamp), {
+   *   memoryBudget: 256 * 1024 * 1024,
+   * });
+   * for await (const entry of entries) {
+   *   console.log(entry.message);
+   * }
+   * ```
+   */
+  static sort<T>(
+    source: AsyncIterable<T> | Iterable<T>,
+    compare: CompareFn<T> = Comparators.natural,
+    options: ExternalSortOptions<T> = {}
+  ): AsyncGenerator<T, void, undefined> {
+    const {
+      memoryBudget = DEFAULT_MEMORY_BUDGET,
+      tempDir = os.tmpdir(),
+      serialize = JSON.stringify,
+      deserialize = JSON.parse,
+    } = options;
+
+    if (typeof compare !== "function") {
+      throw new TypeError("Comparison function must be a function");
+    }
+    if (typeof serialize !== "function" || typeof deserialize !== "function") {
+      throw new TypeError("Serialize and deserialize must be functions");
+    }
+    if (!(memoryBudget > 0)) {
+      throw new Error("Memory budget must be a positive number");
+    }
+    return ExternalSort.run(source, compare, { memoryBudget, tempDir, serialize, deserialize });
+  }
+
+  private static async *run<T>(
+    source: AsyncIterable<T> | Iterable<T>,
+    compare: CompareFn<T>,
+    options: Required<ExternalSortOptions<T>>
+  ): AsyncGenerator<T, void, undefined> {
+    const byRecord = (a: BufferedRecord<T>, b: BufferedRecord<T>) => compare(a.record, b.record);
+    let runs: string[] = [];
+    let directory: string | undefined;
+    let fileCount = 0;
+    let buffer: BufferedRecord<T>[] = [];
+    let bufferSize = 0;
+    const nextFile = (dir: string) => path.join(dir, `run-${fileCount++}.txt`);
+
+    try {
+      for await (const record of source) {
+        const line = options.serialize(record);
+        if (typeof line !== "string" || /[\r\n]/.test(line)) {
+          throw new Error("Serialized records must be single lines of text");
+        }
+
+        buffer.push({ record, line });
+        // Two bytes per UTF-16 code unit, for both the line and the record
+        bufferSize += line.length * 4 + RECORD_OVERHEAD;
+        if (bufferSize >= options.memoryBudget) {
+          directory ??= await fs.mkdtemp(path.join(options.tempDir, "algostructs-sort-"));
+          runs.push(await ExternalSort.writeRun(Sorting.sort(buffer, byRecord), nextFile(directory)));
+          buffer = [];
+          bufferSize = 0;
+        }
+      }
+
+      const sorted = Sorting.sort(buffer, byRecord);
+      buffer = [];
+      if (!directory) {
+        for (const { record } of sorted) {
+          yield record;
+        }
+        return;
+      }
+
+      if (sorted.length > 0) {
+        runs.push(await ExternalSort.writeRun(sorted, nextFile(directory)));
+      }
+
+      // Consecutive runs are merged together, so ties keep their input order across passes
+      while (runs.length > MERGE_WIDTH) {
+        const merged: string[] = [];
+        for (let i = 0; i < runs.length; i += MERGE_WIDTH) {
+          const group = runs.slice(i, i + MERGE_WIDTH);
+          const records = ExternalSort.merge(group, compare, options.deserialize);
+          merged.push(await ExternalSort.writeRun(records, nextFile(directory)));
+          await Promise.all(group.map((file) => fs.rm(file)));
+        }
+        runs = merged;
+      }
+
+      for await (const { record } of ExternalSort.merge(runs, compare, options.deserialize)) {
+        yield record;
+      }
+    } finally {
+      if (directory) {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Writes sorted records to a new run file, one line each, returning its path
+   * @internal
+   */
+  private static async writeRun(
+    records: AsyncIterable<{ line: string }> | Iterable<{ line: string }>,
+    file: string
+  ): Promise<string> {
+    const handle = await fs.open(file, "w");
+    try {
+      let lines: string[] = [];
+      for await (const { line } of records) {
+        lines.push(line);
+        if (lines.length === SPILL_BATCH) {
+          await handle.write(lines.join("\n") + "\n");
+          lines = [];
+        }
+      }
+      if (lines.length > 0) {
+        await handle.write(lines.join("\n") + "\n");
+      }
+    } finally {
+      await handle.close();
+    }
+    return file;
+  }
+
+  /**
+   * K-way merge of the run files, reading each one line by line. The files
+   * are closed when the merge finishes, fails or is stopped early.
+   * @internal
+   */
+  private static async *merge<T>(
+    files: string[],
+    compare: CompareFn<T>,
+    deserialize: (line: string) => T
+  ): AsyncGenerator<RunHead<T>, void, undefined> {
+    const readers: RunReader[] = files.map((file) => {
+      const stream = createReadStream(file, "utf8");
+      return { stream, lines: readline.createInterface({ input: stream, crlfDelay: Infinity }) };
+    });
+    const lines = readers.map((reader) => reader.lines[Symbol.asyncIterator]());
+    const readHead = async (run: number): Promise<RunHead<T> | undefined> => {
+      const { done, value } = await lines[run].next();
+      return done ? undefined : { record: deserialize(value), line: value, run };
+    };
+
+    try {
+      // Ties go to the earlier run, which holds earlier input
+      let queue = new PriorityQueue<RunHead<T>>((a, b) => compare(a.record, b.record) || a.run - b.run);
+      for (let run = 0; run < lines.length; run++) {
+        const head = await readHead(run);
+        if (head) queue = queue.enqueue(head);
+      }
+
+      while (!queue.isEmpty()) {
+        const { element, queue: rest } = queue.dequeue();
+        yield element!;
+
+        const next = await readHead(element!.run);
+        queue = next ? rest.enqueue(next) : rest;
+      }
+    } finally {
+      await Promise.all(readers.map(closeReader));
+    }
+  }
+}
+
+/**
+ * Closes a run reader along with its file stream, which closing the line
+ * reader alone leaves open, and waits for the file to be released
+ * @internal
+ */
+function closeReader({ stream, lines }: RunReader): Promise<void> {
+  lines.close();
+  if (stream.closed) return Promise.resolve();
+  return new Promise((resolve) => {
+    stream.once("close", () => resolve());
+    stream.destroy();
+  });
+}
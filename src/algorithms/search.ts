@@ -1,26 +1,24 @@
-/**
- * Type definition for comparison function
- * @template T The type of values being compared
- */
-type CompareFn<T> = (a: T, b: T) => number;
+import { CompareFn, Comparators } from "../utils/comparators";
+import { Metrics } from "../utils/metrics";
 
 /**
- * Result interface for search operations
+ * Result interface for search operations, carrying the comparison count
+ * from the Metrics shared with Sorting
  * @template T The type of elements being searched
  */
-interface SearchResult<T> {
+export interface SearchResult<T> extends Pick<Metrics, "comparisons"> {
   /** The found element or undefined if not found */
   element: T | undefined;
   /** The index where the element was found (-1 if not found) */
   index: number;
-  /** Number of comparisons made during search */
-  comparisons: number;
 }
 
 /**
  * A collection of searching algorithms with different time complexities
  * and characteristics. Each algorithm returns detailed search results
  * including the found element, index, and number of comparisons made.
+ * Comparison functions default to Comparators.natural, which orders numbers,
+ * strings, bigints and Dates.
  */
 export class Searching {
   /**
@@ -42,7 +40,7 @@ export class Searching {
    * console.log(result); // { element: 3, index: 2, comparisons: 2 }
    * ```
    */
-  static binarySearch<T>(arr: T[], target: T, compare: CompareFn<T> = (a: any, b: any) => a - b): SearchResult<T> {
+  static binarySearch<T>(arr: T[], target: T, compare: CompareFn<T> = Comparators.natural): SearchResult<T> {
     let comparisons = 0;
     let left = 0;
     let right = arr.length - 1;
@@ -90,7 +88,7 @@ export class Searching {
    * const result = Searching.linearSearch(arr, 7);
    * ```
    */
-  static linearSearch<T>(arr: T[], target: T, compare: CompareFn<T> = (a: any, b: any) => a - b): SearchResult<T> {
+  static linearSearch<T>(arr: T[], target: T, compare: CompareFn<T> = Comparators.natural): SearchResult<T> {
     let comparisons = 0;
 
     for (let i = 0; i < arr.length; i++) {
@@ -121,7 +119,7 @@ export class Searching {
    * const result = Searching.jumpSearch(arr, 6);
    * ```
    */
-  static jumpSearch<T>(arr: T[], target: T, compare: CompareFn<T> = (a: any, b: any) => a - b): SearchResult<T> {
+  static jumpSearch<T>(arr: T[], target: T, compare: CompareFn<T> = Comparators.natural): SearchResult<T> {
     let comparisons = 0;
     const n = arr.length;
     let step = Math.floor(Math.sqrt(n));
@@ -227,7 +225,7 @@ export class Searching {
    * const result = Searching.exponentialSearch(arr, 6);
    * ```
    */
-  static exponentialSearch<T>(arr: T[], target: T, compare: CompareFn<T> = (a: any, b: any) => a - b): SearchResult<T> {
+  static exponentialSearch<T>(arr: T[], target: T, compare: CompareFn<T> = Comparators.natural): SearchResult<T> {
     let comparisons = 0;
 
     if (arr.length === 0) {
@@ -269,7 +267,7 @@ export class Searching {
    * @param compare - Optional comparison function
    * @returns SearchResult with found element, index, and comparison count
    */
-  static search<T>(arr: T[], target: T, compare: CompareFn<T> = (a: any, b: any) => a - b): SearchResult<T> {
+  static search<T>(arr: T[], target: T, compare: CompareFn<T> = Comparators.natural): SearchResult<T> {
     // For small arrays, linear search is faster
     if (arr.length <= 10) {
       return this.linearSearch(arr, target, compare);
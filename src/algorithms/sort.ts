@@ -1,63 +1,143 @@
+import { CompareFn, Comparators } from "../utils/comparators";
+import { Instrumented, Metrics } from "../utils/metrics";
+import { BoundedHeap } from "../data-structures/heap";
+
+/**
+ * An indexed, writable sequence that can be sorted in place,
+ * such as a plain array or a typed array like Float64Array
+ * @template T The type of elements in the sequence
+ */
+export interface MutableArrayLike<T> {
+  [index: number]: T;
+  readonly length: number;
+}
+
+/**
+ * The subrange [from, to) of an array to sort in place
+ */
+export interface SortRange {
+  /** First index to sort (default 0) */
+  from?: number;
+  /** Index after the last one to sort (default the array length) */
+  to?: number;
+}
+
+/**
+ * Options for sorting by an extracted key instead of a comparison function
+ * @template T The type of elements to sort
+ */
+export interface KeySortOptions<T> {
+  /** Extracts each element's sort key; every key must be a number, or every key a string */
+  key: (value: T) => number | string;
+}
+
 /**
- * Type definition for comparison function
- * @template T The type of values being compared
+ * How Sorting.quickSort chooses its pivots:
+ * - "median-of-three": the median of the first, middle and last elements
+ * - "ninther": the median of three medians of three, sampled across the range
+ * - "random": a uniformly random element
  */
-type CompareFn<T> = (a: T, b: T) => number;
+export type PivotStrategy = "median-of-three" | "ninther" | "random";
+
+/**
+ * Options for Sorting.quickSort
+ */
+export interface QuickSortOptions {
+  /** Pivot selection strategy (default "median-of-three") */
+  pivot?: PivotStrategy;
+  /** Seed for the "random" strategy, making runs reproducible. Unseeded runs use Math.random */
+  seed?: number;
+}
 
 /**
  * A collection of sorting algorithms with different time/space complexities
  * and characteristics. Each algorithm is implemented as a pure function
- * that returns a new sorted array.
+ * that returns a new sorted array. The *InPlace variants instead sort a
+ * subrange of the given array or typed array directly, without copying it.
+ *
+ * A stable algorithm keeps elements that compare equal in their input order,
+ * so sorting by a secondary key and then by a primary key orders records by
+ * both. Each method documents whether it is stable.
+ *
+ * Comparison functions default to Comparators.natural, which orders numbers,
+ * strings, bigints and Dates.
+ *
+ * Any method can be run through Sorting.instrumented to measure its
+ * comparisons, swaps, moves, recursion depth and elapsed time.
  */
 export class Sorting {
   /**
-   * QuickSort implementation using the Hoare partition scheme.
-   * Time Complexity: O(n log n) average, O(n²) worst case
+   * Runs sorting code with instrumentation enabled, returning its result
+   * together with the metrics collected by every Sorting method it calls.
+   * Outside of this method the counters are switched off, so ordinary calls
+   * pay only for a null check. topK reports comparisons only, as its heap is
+   * maintained by BoundedHeap.
+   *
+   * @template R The type of result
+   * @param run - Callback invoking one or more Sorting methods
+   * @returns The callback's result and the metrics of the run
+   * @throws {TypeError} If run is not a function
+   * @example
+   * ```typescript
+   * const { result, metrics } = Sorting.instrumented(() => Sorting.quickSort(data, byTimestamp));
+   * console.log(metrics); // { comparisons: 5112, swaps: 2530, moves: 1280, maxDepth: 9, elapsedMs: 0.41 }
+   *
+   * for (const name of ["quickSort", "mergeSort", "timSort"] as const) {
+   *   console.log(name, Sorting.instrumented(() => Sorting[name](data, byTimestamp)).metrics.comparisons);
+   * }
+   * ```
+   */
+  static instrumented<R>(run: () => R): Instrumented<R> {
+    if (typeof run !== "function") {
+      throw new TypeError("Run must be a function");
+    }
+
+    const previous = recorder;
+    const metrics: Metrics = { comparisons: 0, swaps: 0, moves: 0, maxDepth: 0, elapsedMs: 0 };
+    recorder = { metrics, depth: 0 };
+    const start = performance.now();
+    try {
+      const result = run();
+      metrics.elapsedMs = performance.now() - start;
+      return { result, metrics };
+    } finally {
+      recorder = previous;
+    }
+  }
+
+  /**
+   * QuickSort implementation as an introsort: ranges are split by three-way
+   * partitioning, so runs of equal keys are settled in one pass, and any
+   * range still unsorted after 2·log n levels of partitioning is finished
+   * with heap sort. Small ranges are finished with insertion sort.
+   * Time Complexity: O(n log n) average and worst case
    * Space Complexity: O(log n) due to recursion
-   * Stable: No
+   * Stable: No - partitioning may swap equal elements past each other
    * In-place: Yes
    *
    * @template T The type of elements to sort
    * @param arr - Array to sort
    * @param compare - Optional comparison function
+   * @param options - Optional pivot strategy and random seed
    * @returns A new sorted array
+   * @throws {TypeError} If the pivot strategy is unknown
    * @example
    * ```typescript
    * const arr = [3, 1, 4, 1, 5, 9];
    * const sorted = Sorting.quickSort(arr);
    * console.log(sorted); // [1, 1, 3, 4, 5, 9]
+   *
+   * const reproducible = Sorting.quickSort(arr, undefined, { pivot: "random", seed: 42 });
    * ```
    */
-  static quickSort<T>(arr: T[], compare: CompareFn<T> = (a: any, b: any) => a - b): T[] {
-    if (arr.length <= 1) return [...arr];
-
+  static quickSort<T>(
+    arr: T[],
+    compare: CompareFn<T> = Comparators.natural,
+    options: QuickSortOptions = {}
+  ): T[] {
+    const choosePivot = createPivotChooser<T>(options);
     const result = [...arr];
-    const partition = (low: number, high: number): number => {
-      const pivot = result[Math.floor((low + high) / 2)];
-      let i = low - 1;
-      let j = high + 1;
-
-      while (true) {
-        do {
-          i++;
-        } while (compare(result[i], pivot) < 0);
-        do {
-          j--;
-        } while (compare(result[j], pivot) > 0);
-        if (i >= j) return j;
-        [result[i], result[j]] = [result[j], result[i]];
-      }
-    };
-
-    const sort = (low: number, high: number): void => {
-      if (low < high) {
-        const p = partition(low, high);
-        sort(low, p);
-        sort(p + 1, high);
-      }
-    };
-
-    sort(0, result.length - 1);
+    introSort(result, 0, result.length, counted(compare), choosePivot);
     return result;
   }
 
@@ -65,7 +145,7 @@ export class Sorting {
    * MergeSort implementation.
    * Time Complexity: O(n log n)
    * Space Complexity: O(n)
-   * Stable: Yes
+   * Stable: Yes - ties are taken from the left half first
    * In-place: No
    *
    * @template T The type of elements to sort
@@ -79,8 +159,9 @@ export class Sorting {
    * // Preserves relative order of equal elements
    * ```
    */
-  static mergeSort<T>(arr: T[], compare: CompareFn<T> = (a: any, b: any) => a - b): T[] {
+  static mergeSort<T>(arr: T[], compare: CompareFn<T> = Comparators.natural): T[] {
     if (arr.length <= 1) return [...arr];
+    compare = counted(compare);
 
     const merge = (left: T[], right: T[]): T[] => {
       const result: T[] = [];
@@ -95,6 +176,7 @@ export class Sorting {
         }
       }
 
+      recordMoves(left.length + right.length);
       return [...result, ...left.slice(i), ...right.slice(j)];
     };
 
@@ -102,14 +184,17 @@ export class Sorting {
     const left = arr.slice(0, mid);
     const right = arr.slice(mid);
 
-    return merge(Sorting.mergeSort(left, compare), Sorting.mergeSort(right, compare));
+    enter();
+    const sorted = merge(Sorting.mergeSort(left, compare), Sorting.mergeSort(right, compare));
+    leave();
+    return sorted;
   }
 
   /**
    * HeapSort implementation.
    * Time Complexity: O(n log n)
    * Space Complexity: O(1)
-   * Stable: No
+   * Stable: No - moving elements through the heap reorders equal elements
    * In-place: Yes
    *
    * @template T The type of elements to sort
@@ -122,38 +207,9 @@ export class Sorting {
    * const sorted = Sorting.heapSort(arr);
    * ```
    */
-  static heapSort<T>(arr: T[], compare: CompareFn<T> = (a: any, b: any) => a - b): T[] {
+  static heapSort<T>(arr: T[], compare: CompareFn<T> = Comparators.natural): T[] {
     const result = [...arr];
-
-    const heapify = (n: number, i: number): void => {
-      let largest = i;
-      const left = 2 * i + 1;
-      const right = 2 * i + 2;
-
-      if (left < n && compare(result[left], result[largest]) > 0) {
-        largest = left;
-      }
-      if (right < n && compare(result[right], result[largest]) > 0) {
-        largest = right;
-      }
-
-      if (largest !== i) {
-        [result[i], result[largest]] = [result[largest], result[i]];
-        heapify(n, largest);
-      }
-    };
-
-    // Build max heap
-    for (let i = Math.floor(result.length / 2) - 1; i >= 0; i--) {
-      heapify(result.length, i);
-    }
-
-    // Extract elements from heap
-    for (let i = result.length - 1; i > 0; i--) {
-      [result[0], result[i]] = [result[i], result[0]];
-      heapify(i, 0);
-    }
-
+    heapSortRange(result, 0, result.length, counted(compare));
     return result;
   }
 
@@ -161,7 +217,7 @@ export class Sorting {
    * InsertionSort implementation. Efficient for small arrays and nearly sorted arrays.
    * Time Complexity: O(n²) worst/average case, O(n) best case
    * Space Complexity: O(1)
-   * Stable: Yes
+   * Stable: Yes - elements only move past strictly greater ones
    * In-place: Yes
    *
    * @template T The type of elements to sort
@@ -174,99 +230,411 @@ export class Sorting {
    * const sorted = Sorting.insertionSort(arr);
    * ```
    */
-  static insertionSort<T>(arr: T[], compare: CompareFn<T> = (a: any, b: any) => a - b): T[] {
+  static insertionSort<T>(arr: T[], compare: CompareFn<T> = Comparators.natural): T[] {
     const result = [...arr];
+    insertionSortRange(result, 0, result.length, counted(compare));
+    return result;
+  }
 
-    for (let i = 1; i < result.length; i++) {
-      const key = result[i];
-      let j = i - 1;
+  /**
+   * CountingSort implementation for non-negative integers, or for elements
+   * with a non-negative integer key.
+   * Time Complexity: O(n + k) where k is the largest key
+   * Space Complexity: O(n + k)
+   * Stable: Yes - elements with equal keys are placed in input order
+   * In-place: No
+   * Note: Only works with non-negative integer keys; use radixSort for negative or large keys
+   *
+   * @template T The type of elements to sort
+   * @param arr - Array to sort
+   * @param keyFn - Optional key extractor. Defaults to the elements themselves
+   * @returns A new sorted array
+   * @throws {Error} If a key is negative or not an integer
+   * @example
+   * ```typescript
+   * const arr = [3, 1, 4, 1, 5, 9];
+   * const sorted = Sorting.countingSort(arr);
+   *
+   * const byPriority = Sorting.countingSort(tasks, (task) => task.priority);
+   * ```
+   */
+  static countingSort(arr: number[]): number[];
+  static countingSort<T>(arr: T[], keyFn: (value: T) => number): T[];
+  static countingSort<T>(arr: T[], keyFn: (value: T) => number = (value: any) => value): T[] {
+    if (arr.length <= 1) return [...arr];
 
-      while (j >= 0 && compare(result[j], key) > 0) {
-        result[j + 1] = result[j];
-        j--;
+    const keys = arr.map((value) => keyFn(value));
+    let max = 0;
+    for (const key of keys) {
+      if (!Number.isInteger(key) || key < 0) {
+        throw new Error("Counting sort only works with non-negative integers");
       }
-
-      result[j + 1] = key;
+      max = Math.max(max, key);
     }
+    return countingSortByKeys(arr, keys, max);
+  }
 
-    return result;
+  /**
+   * LSD radix sort for numbers, or for elements with a numeric key. Keys that
+   * are all 32-bit integers (negative ones included) take four byte-wide
+   * passes; any other finite or infinite keys are sorted by the bits of their
+   * 64-bit float representation in eight passes. Passes in which every key
+   * has the same byte are skipped.
+   * Time Complexity: O(n)
+   * Space Complexity: O(n)
+   * Stable: Yes - every pass distributes elements in input order
+   * In-place: No
+   * Note: -0 sorts before 0, and NaN keys sort last
+   *
+   * @template T The type of elements to sort
+   * @param arr - Array to sort
+   * @param keyFn - Optional key extractor. Defaults to the elements themselves
+   * @returns A new sorted array
+   * @throws {TypeError} If a key is not a number
+   * @example
+   * ```typescript
+   * const sorted = Sorting.radixSort([170, -45, 75, -90, 2.5]);
+   * console.log(sorted); // [-90, -45, 2.5, 75, 170]
+   * ```
+   */
+  static radixSort(arr: number[]): number[];
+  static radixSort<T>(arr: T[], keyFn: (value: T) => number): T[];
+  static radixSort<T>(arr: T[], keyFn: (value: T) => number = (value: any) => value): T[] {
+    const keys = arr.map((value) => keyFn(value));
+    if (keys.some((key) => typeof key !== "number")) {
+      throw new TypeError("Radix sort keys must be numbers");
+    }
+    return radixSortByKeys(arr, keys);
   }
 
   /**
-   * CountingSort implementation for arrays of integers.
-   * Time Complexity: O(n + k) where k is the range of input
-   * Space Complexity: O(k)
-   * Stable: Yes
+   * MSD radix sort for strings, or for elements with a string key. Strings
+   * are distributed into buckets one byte of a UTF-16 code unit at a time,
+   * so the order matches the default string order of < and Array.prototype.sort.
+   * Buckets of a few elements are finished with insertion sort.
+   * Time Complexity: O(n·m) worst case where m is the key length, less when keys differ early
+   * Space Complexity: O(n)
+   * Stable: Yes - buckets keep elements in input order
    * In-place: No
-   * Note: Only works with non-negative integers
    *
-   * @param arr - Array of non-negative integers to sort
+   * @template T The type of elements to sort
+   * @param arr - Array to sort
+   * @param keyFn - Optional key extractor. Defaults to the elements themselves
    * @returns A new sorted array
-   * @throws {Error} If array contains negative numbers
+   * @throws {TypeError} If a key is not a string
    * @example
    * ```typescript
-   * const arr = [3, 1, 4, 1, 5, 9];
-   * const sorted = Sorting.countingSort(arr);
+   * const sorted = Sorting.stringRadixSort(["she", "sells", "sea", "shells"]);
+   * console.log(sorted); // ["sea", "sells", "she", "shells"]
    * ```
    */
-  static countingSort(arr: number[]): number[] {
-    if (arr.length <= 1) return [...arr];
-    if (arr.some((n) => n < 0)) {
-      throw new Error("Counting sort only works with non-negative integers");
+  static stringRadixSort(arr: string[]): string[];
+  static stringRadixSort<T>(arr: T[], keyFn: (value: T) => string): T[];
+  static stringRadixSort<T>(arr: T[], keyFn: (value: T) => string = (value: any) => value): T[] {
+    const keys = arr.map((value) => keyFn(value));
+    if (keys.some((key) => typeof key !== "string")) {
+      throw new TypeError("String radix sort keys must be strings");
     }
+    return msdRadixSort(arr, keys);
+  }
 
-    const max = Math.max(...arr);
-    const count = new Array(max + 1).fill(0);
-    const result = new Array(arr.length);
+  /**
+   * TimSort implementation: a merge sort that adapts to existing order.
+   * The input is split into ascending runs (strictly descending runs are
+   * reversed), short runs are extended with binary insertion sort, and runs
+   * are merged so that long stretches from one side are copied in bulk
+   * ("galloping") instead of compared element by element.
+   * Time Complexity: O(n log n) worst case, O(n) for presorted or reversed input
+   * Space Complexity: O(n)
+   * Stable: Yes - runs are merged so that ties keep their input order
+   * In-place: No
+   *
+   * @template T The type of elements to sort
+   * @param arr - Array to sort
+   * @param compare - Optional comparison function
+   * @returns A new sorted array
+   * @throws {Error} If the comparison function is inconsistent
+   * @example
+   * ```typescript
+   * const people = [{ name: "Ann", age: 30 }, { name: "Bob", age: 25 }, { name: "Cid", age: 30 }];
+   * const byAge = Sorting.timSort(people, (a, b) => a.age - b.age);
+   * // Bob, Ann, Cid: Ann stays ahead of Cid
+   * ```
+   */
+  static timSort<T>(arr: T[], compare: CompareFn<T> = Comparators.natural): T[] {
+    const result = [...arr];
+    new TimSorter(result, counted(compare)).sort(0, result.length);
+    return result;
+  }
 
-    // Count occurrences
-    for (const num of arr) {
-      count[num]++;
+  /**
+   * General-purpose sort. With a comparison function this is TimSort: small
+   * arrays are handled by binary insertion sort, and partially ordered input
+   * is sorted in close to linear time. With a key extractor the sort skips
+   * comparisons altogether: string keys use stringRadixSort, small
+   * non-negative integer keys use countingSort, and other numeric keys use radixSort.
+   * Stable: Yes - records can be sorted by several keys in successive passes,
+   * least significant key first
+   *
+   * @template T The type of elements to sort
+   * @param arr - Array to sort
+   * @param compare - Optional comparison function, or options holding a key extractor
+   * @returns A new sorted array
+   * @throws {TypeError} If extracted keys are not all numbers or all strings
+   * @example
+   * ```typescript
+   * const byName = Sorting.sort(people, { key: (person) => person.name });
+   * const byAgeThenName = Sorting.sort(byName, (a, b) => a.age - b.age);
+   * ```
+   */
+  static sort<T>(arr: T[], compare?: CompareFn<T>): T[];
+  static sort<T>(arr: T[], options: KeySortOptions<T>): T[];
+  static sort<T>(arr: T[], compare: CompareFn<T> | KeySortOptions<T> = Comparators.natural): T[] {
+    if (typeof compare === "function") {
+      return Sorting.timSort(arr, compare);
     }
 
-    // Calculate cumulative count
-    for (let i = 1; i < count.length; i++) {
-      count[i] += count[i - 1];
+    const keys = arr.map((value) => compare.key(value));
+    if (keys.every((key) => typeof key === "string")) {
+      return msdRadixSort(arr, keys as string[]);
+    }
+    if (!keys.every((key) => typeof key === "number")) {
+      throw new TypeError("Sort keys must be all numbers or all strings");
     }
 
-    // Build output array
-    for (let i = arr.length - 1; i >= 0; i--) {
-      result[count[arr[i]] - 1] = arr[i];
-      count[arr[i]]--;
+    const numbers = keys as number[];
+    let max = 0;
+    for (const key of numbers) {
+      if (!Number.isInteger(key) || key < 0) {
+        return radixSortByKeys(arr, numbers);
+      }
+      max = Math.max(max, key);
     }
+    // Counting beats radix passes while the count array stays within the input size
+    return max < Math.max(arr.length, 256) ? countingSortByKeys(arr, numbers, max) : radixSortByKeys(arr, numbers);
+  }
 
-    return result;
+  /**
+   * Sorts an array or typed array in place, optionally only the subrange [from, to).
+   * Uses the same introsort as quickSortInPlace, so no copy of the data is made.
+   * Time Complexity: O(n log n)
+   * Space Complexity: O(log n)
+   * Stable: No - use Sorting.sort when equal elements must keep their order
+   * In-place: Yes
+   *
+   * @template A The type of array to sort
+   * @param arr - Array or typed array to sort
+   * @param compare - Optional comparison function
+   * @param range - Optional subrange to sort; elements outside it are left untouched
+   * @returns The same array, sorted
+   * @throws {RangeError} If the range is not within the array
+   * @example
+   * ```typescript
+   * const samples = new Float64Array([0.5, -1, 3.25, 2]);
+   * Sorting.sortInPlace(samples); // Float64Array [-1, 0.5, 2, 3.25]
+   * Sorting.sortInPlace(samples, (a, b) => b - a, { from: 2 }); // Float64Array [-1, 0.5, 3.25, 2]
+   * ```
+   */
+  static sortInPlace<A extends MutableArrayLike<unknown>>(
+    arr: A,
+    compare: CompareFn<A[number]> = Comparators.natural,
+    range: SortRange = {}
+  ): A {
+    return Sorting.quickSortInPlace(arr, compare, range);
   }
 
   /**
-   * Hybrid sort that chooses the best algorithm based on input characteristics.
-   * - Uses insertion sort for small arrays (length <= 10)
-   * - Uses quicksort for larger arrays
+   * In-place variant of quickSort, optionally sorting only the subrange [from, to)
+   * Time Complexity: O(n log n) average and worst case
+   * Space Complexity: O(log n) due to recursion
+   * Stable: No - partitioning may swap equal elements past each other
+   * In-place: Yes
+   *
+   * @template A The type of array to sort
+   * @param arr - Array or typed array to sort
+   * @param compare - Optional comparison function
+   * @param options - Optional subrange, pivot strategy and random seed
+   * @returns The same array, sorted
+   * @throws {RangeError} If the range is not within the array
+   * @throws {TypeError} If the pivot strategy is unknown
+   */
+  static quickSortInPlace<A extends MutableArrayLike<unknown>>(
+    arr: A,
+    compare: CompareFn<A[number]> = Comparators.natural,
+    options: QuickSortOptions & SortRange = {}
+  ): A {
+    const [from, to] = resolveRange(arr, options);
+    introSort(arr, from, to, counted(compare), createPivotChooser<A[number]>(options));
+    return arr;
+  }
+
+  /**
+   * In-place variant of heapSort, optionally sorting only the subrange [from, to)
+   * Time Complexity: O(n log n)
+   * Space Complexity: O(1)
+   * Stable: No - moving elements through the heap reorders equal elements
+   * In-place: Yes
+   *
+   * @template A The type of array to sort
+   * @param arr - Array or typed array to sort
+   * @param compare - Optional comparison function
+   * @param range - Optional subrange to sort
+   * @returns The same array, sorted
+   * @throws {RangeError} If the range is not within the array
+   */
+  static heapSortInPlace<A extends MutableArrayLike<unknown>>(
+    arr: A,
+    compare: CompareFn<A[number]> = Comparators.natural,
+    range: SortRange = {}
+  ): A {
+    const [from, to] = resolveRange(arr, range);
+    heapSortRange(arr, from, to, counted(compare));
+    return arr;
+  }
+
+  /**
+   * In-place variant of insertionSort, optionally sorting only the subrange [from, to)
+   * Time Complexity: O(n²) worst/average case, O(n) best case
+   * Space Complexity: O(1)
+   * Stable: Yes - elements only move past strictly greater ones
+   * In-place: Yes
+   *
+   * @template A The type of array to sort
+   * @param arr - Array or typed array to sort
+   * @param compare - Optional comparison function
+   * @param range - Optional subrange to sort
+   * @returns The same array, sorted
+   * @throws {RangeError} If the range is not within the array
+   */
+  static insertionSortInPlace<A extends MutableArrayLike<unknown>>(
+    arr: A,
+    compare: CompareFn<A[number]> = Comparators.natural,
+    range: SortRange = {}
+  ): A {
+    const [from, to] = resolveRange(arr, range);
+    insertionSortRange(arr, from, to, counted(compare));
+    return arr;
+  }
+
+  /**
+   * Finds the k-th smallest element (counting from 0) without sorting the
+   * whole array: quickselect, falling back to median-of-medians pivots when
+   * partitioning goes badly.
+   * Time Complexity: O(n) average and worst case
+   * Space Complexity: O(n) for the working copy
+   * Stable: Not applicable - only one element is returned
+   *
+   * @template T The type of elements
+   * @param arr - Array to select from
+   * @param k - Index the element would have in the sorted array
+   * @param compare - Optional comparison function
+   * @returns The element at index k of the sorted order
+   * @throws {RangeError} If k is not an index of the array
+   * @example
+   * ```typescript
+   * Sorting.select([7, 1, 5, 3, 9], 1); // 3
+   * ```
+   */
+  static select<T>(arr: T[], k: number, compare: CompareFn<T> = Comparators.natural): T {
+    if (!Number.isInteger(k) || k < 0 || k >= arr.length) {
+      throw new RangeError("Index out of range");
+    }
+    const result = [...arr];
+    selectRange(result, 0, result.length, k, counted(compare));
+    return result[k];
+  }
+
+  /**
+   * Sorts only the k smallest elements: the result starts with them in
+   * sorted order, followed by the remaining elements in no particular order.
+   * Time Complexity: O(n + k log k)
+   * Space Complexity: O(n)
+   * Stable: No - selection and partitioning reorder equal elements
+   * In-place: No
    *
    * @template T The type of elements to sort
    * @param arr - Array to sort
+   * @param k - Number of smallest elements to sort; larger counts sort the whole array
    * @param compare - Optional comparison function
-   * @returns A new sorted array
+   * @returns A new array whose first k elements are the k smallest, in order
+   * @throws {RangeError} If k is not a non-negative integer
+   * @example
+   * ```typescript
+   * const lowest = Sorting.partialSort([9, 4, 7, 1, 8], 2).slice(0, 2); // [1, 4]
+   * ```
    */
-  static sort<T>(arr: T[], compare: CompareFn<T> = (a: any, b: any) => a - b): T[] {
-    // For small arrays, insertion sort is faster
-    if (arr.length <= 10) {
-      return Sorting.insertionSort(arr, compare);
+  static partialSort<T>(arr: T[], k: number, compare: CompareFn<T> = Comparators.natural): T[] {
+    validateCount(k);
+    compare = counted(compare);
+    const result = [...arr];
+    const count = Math.min(k, result.length);
+    if (count > 0) {
+      selectRange(result, 0, result.length, count - 1, compare);
+      introSort(result, 0, count - 1, compare, createPivotChooser<T>({}));
     }
+    return result;
+  }
 
-    // For larger arrays, use quicksort
-    return Sorting.quickSort(arr, compare);
+  /**
+   * Returns the k largest elements, largest first, in a single pass that
+   * keeps them in a BoundedHeap of size k
+   * Time Complexity: O(n log k)
+   * Space Complexity: O(k)
+   * Stable: No - among equal elements, which are kept and their order is unspecified
+   * In-place: No
+   *
+   * @template T The type of elements
+   * @param arr - Array to search
+   * @param k - Number of elements to return; larger counts return every element
+   * @param compare - Optional comparison function
+   * @returns A new array of the k largest elements in descending order
+   * @throws {RangeError} If k is not a non-negative integer
+   * @example
+   * ```typescript
+   * const best = Sorting.topK(scores, 100);
+   * const cheapest = Sorting.topK(products, 3, Comparators.reversed(Comparators.by((p) => p.price)));
+   * ```
+   */
+  static topK<T>(arr: T[], k: number, compare: CompareFn<T> = Comparators.natural): T[] {
+    validateCount(k);
+    return [...BoundedHeap.from(arr, k, counted(compare))].reverse();
   }
 
   /**
-   * Checks if an array is sorted according to a comparison function
+   * Returns the median element. For an even number of elements this is the
+   * lower of the two middle elements, so the result is always an element of
+   * the array; numeric callers wanting the mean of the middle pair can
+   * combine two select calls.
+   * Time Complexity: O(n)
+   * Space Complexity: O(n)
+   * Stable: Not applicable - only one element is returned
+   *
+   * @template T The type of elements
+   * @param arr - Array to take the median of
+   * @param compare - Optional comparison function
+   * @returns The median element, or undefined if the array is empty
+   * @example
+   * ```typescript
+   * Sorting.median([5, 1, 4, 2, 3]); // 3
+   * Sorting.median(["pear", "fig", "apple", "kiwi"]); // "fig"
+   * ```
+   */
+  static median<T>(arr: T[], compare: CompareFn<T> = Comparators.natural): T | undefined {
+    return arr.length === 0 ? undefined : Sorting.select(arr, (arr.length - 1) >>> 1, compare);
+  }
+
+  /**
+   * Checks if an array is sorted according to a comparison function.
+   * Equal neighbours count as sorted.
+   * Stable: Not applicable - the array is only read
    *
    * @template T The type of elements to check
    * @param arr - Array to check
    * @param compare - Optional comparison function
    * @returns true if the array is sorted
    */
-  static isSorted<T>(arr: T[], compare: CompareFn<T> = (a: any, b: any) => a - b): boolean {
+  static isSorted<T>(arr: T[], compare: CompareFn<T> = Comparators.natural): boolean {
+    compare = counted(compare);
     for (let i = 1; i < arr.length; i++) {
       if (compare(arr[i - 1], arr[i]) > 0) {
         return false;
@@ -275,3 +643,944 @@ export class Sorting {
     return true;
   }
 }
+
+/**
+ * Counters of the Sorting.instrumented call in progress, or null when
+ * nothing is being measured
+ * @internal
+ */
+let recorder: { metrics: Metrics; depth: number } | null = null;
+
+/**
+ * Comparison functions already counting into the recorder, so that methods
+ * delegating to one another do not count comparisons twice
+ * @internal
+ */
+const countedComparators = new WeakSet<CompareFn<any>>();
+
+/**
+ * Wraps a comparison function to count its calls while instrumented;
+ * otherwise returns it unchanged
+ * @internal
+ */
+function counted<T>(compare: CompareFn<T>): CompareFn<T> {
+  if (!recorder || countedComparators.has(compare)) return compare;
+  const wrapper: CompareFn<T> = (a, b) => {
+    if (recorder) recorder.metrics.comparisons++;
+    return compare(a, b);
+  };
+  countedComparators.add(wrapper);
+  return wrapper;
+}
+
+/** @internal */
+function recordComparisons(count: number): void {
+  if (recorder) recorder.metrics.comparisons += count;
+}
+
+/** @internal */
+function recordMoves(count: number): void {
+  if (recorder) recorder.metrics.moves += count;
+}
+
+/**
+ * Marks entry into a level of recursion; paired with leave
+ * @internal
+ */
+function enter(): void {
+  if (recorder) recorder.metrics.maxDepth = Math.max(recorder.metrics.maxDepth, ++recorder.depth);
+}
+
+/** @internal */
+function leave(): void {
+  if (recorder) recorder.depth--;
+}
+
+/**
+ * Validates an in-place sort range, returning [from, to]
+ * @internal
+ */
+function resolveRange(arr: MutableArrayLike<unknown>, { from = 0, to = arr.length }: SortRange): [number, number] {
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || from > to || to > arr.length) {
+    throw new RangeError("Index out of range");
+  }
+  return [from, to];
+}
+
+/**
+ * Ranges shorter than this are finished by insertion sort during quicksort
+ * @internal
+ */
+const INSERTION_SORT_THRESHOLD = 16;
+
+/**
+ * Picks the index of a pivot within a[lo, hi)
+ * @internal
+ */
+type PivotChooser<T> = (a: MutableArrayLike<T>, lo: number, hi: number, compare: CompareFn<T>) => number;
+
+/**
+ * Builds the pivot chooser for a quicksort run, validating the options
+ * @internal
+ */
+function createPivotChooser<T>({ pivot = "median-of-three", seed }: QuickSortOptions): PivotChooser<T> {
+  switch (pivot) {
+    case "median-of-three":
+      return (a, lo, hi, compare) => medianOfThree(a, lo, lo + ((hi - lo) >>> 1), hi - 1, compare);
+    case "ninther":
+      return (a, lo, hi, compare) => {
+        const step = (hi - lo) >>> 3;
+        const mid = lo + ((hi - lo) >>> 1);
+        const last = hi - 1;
+        return medianOfThree(
+          a,
+          medianOfThree(a, lo, lo + step, lo + 2 * step, compare),
+          medianOfThree(a, mid - step, mid, mid + step, compare),
+          medianOfThree(a, last - 2 * step, last - step, last, compare),
+          compare
+        );
+      };
+    case "random": {
+      const random = seed === undefined ? Math.random : createSeededRandom(seed);
+      return (_, lo, hi) => lo + Math.floor(random() * (hi - lo));
+    }
+    default:
+      throw new TypeError(`Unknown pivot strategy: ${pivot}`);
+  }
+}
+
+/**
+ * Returns a mulberry32 generator of numbers in [0, 1)
+ * @internal
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns whichever of the indices i, j and k holds the median value
+ * @internal
+ */
+function medianOfThree<T>(a: MutableArrayLike<T>, i: number, j: number, k: number, compare: CompareFn<T>): number {
+  if (compare(a[i], a[j]) < 0) {
+    if (compare(a[j], a[k]) <= 0) return j;
+    return compare(a[i], a[k]) < 0 ? k : i;
+  }
+  if (compare(a[j], a[k]) >= 0) return j;
+  return compare(a[i], a[k]) > 0 ? k : i;
+}
+
+/**
+ * Sorts a[lo, hi) in place with introsort
+ * @internal
+ */
+function introSort<T>(
+  a: MutableArrayLike<T>,
+  lo: number,
+  hi: number,
+  compare: CompareFn<T>,
+  choosePivot: PivotChooser<T>
+): void {
+  const sortRange = (lo: number, hi: number, depth: number): void => {
+    enter();
+    while (hi - lo > INSERTION_SORT_THRESHOLD) {
+      if (depth === 0) {
+        heapSortRange(a, lo, hi, compare);
+        leave();
+        return;
+      }
+      depth--;
+
+      const [lt, gt] = partition3(a, lo, hi, a[choosePivot(a, lo, hi, compare)], compare);
+
+      // Recurse into the smaller side and loop on the larger one, keeping the stack O(log n)
+      if (lt - lo < hi - gt) {
+        sortRange(lo, lt, depth);
+        lo = gt;
+      } else {
+        sortRange(gt, hi, depth);
+        hi = lt;
+      }
+    }
+    insertionSortRange(a, lo, hi, compare);
+    leave();
+  };
+
+  if (hi - lo > 1) {
+    sortRange(lo, hi, 2 * Math.floor(Math.log2(hi - lo)));
+  }
+}
+
+/**
+ * Three-way partitions a[lo, hi) around a pivot value, returning [lt, gt]
+ * such that [lo, lt) < pivot, [lt, gt) equals pivot and [gt, hi) > pivot
+ * @internal
+ */
+function partition3<T>(
+  a: MutableArrayLike<T>,
+  lo: number,
+  hi: number,
+  pivot: T,
+  compare: CompareFn<T>
+): [number, number] {
+  let lt = lo;
+  let gt = hi;
+  let i = lo;
+  while (i < gt) {
+    const order = compare(a[i], pivot);
+    if (order < 0) {
+      swap(a, lt++, i++);
+    } else if (order > 0) {
+      swap(a, i, --gt);
+    } else {
+      i++;
+    }
+  }
+  return [lt, gt];
+}
+
+/**
+ * Reorders a[lo, hi) so that a[k] holds the element a full sort would put
+ * there, with nothing larger before it and nothing smaller after it.
+ * Quickselect with median-of-three pivots, switching to median-of-medians
+ * pivots after 2·log n rounds so the worst case stays linear.
+ * @internal
+ */
+function selectRange<T>(a: MutableArrayLike<T>, lo: number, hi: number, k: number, compare: CompareFn<T>): void {
+  enter();
+  let rounds = hi - lo > 1 ? 2 * Math.floor(Math.log2(hi - lo)) : 0;
+  while (hi - lo > INSERTION_SORT_THRESHOLD) {
+    const pivotIndex =
+      rounds-- > 0
+        ? medianOfThree(a, lo, lo + ((hi - lo) >>> 1), hi - 1, compare)
+        : medianOfMedians(a, lo, hi, compare);
+    const [lt, gt] = partition3(a, lo, hi, a[pivotIndex], compare);
+
+    if (k < lt) {
+      hi = lt;
+    } else if (k >= gt) {
+      lo = gt;
+    } else {
+      leave();
+      return;
+    }
+  }
+  insertionSortRange(a, lo, hi, compare);
+  leave();
+}
+
+/**
+ * Returns the index of the median of the medians of groups of five, which
+ * has at least 30% of a[lo, hi) on either side. The group medians are
+ * gathered at the front of the range to select among them.
+ * @internal
+ */
+function medianOfMedians<T>(a: MutableArrayLike<T>, lo: number, hi: number, compare: CompareFn<T>): number {
+  let medians = lo;
+  for (let start = lo; start < hi; start += 5) {
+    const end = Math.min(start + 5, hi);
+    insertionSortRange(a, start, end, compare);
+    swap(a, medians++, start + ((end - start) >>> 1));
+  }
+
+  const middle = lo + ((medians - lo) >>> 1);
+  selectRange(a, lo, medians, middle, compare);
+  return middle;
+}
+
+/**
+ * Validates the element count passed to partialSort and topK
+ * @internal
+ */
+function validateCount(k: number): void {
+  if (!Number.isInteger(k) || k < 0) {
+    throw new RangeError("Count must be a non-negative integer");
+  }
+}
+
+/**
+ * Sorts a[lo, hi) in place with heap sort
+ * @internal
+ */
+function heapSortRange<T>(a: MutableArrayLike<T>, lo: number, hi: number, compare: CompareFn<T>): void {
+  const n = hi - lo;
+  const siftDown = (i: number, size: number): void => {
+    while (true) {
+      let largest = i;
+      const left = 2 * i + 1;
+      const right = left + 1;
+
+      if (left < size && compare(a[lo + left], a[lo + largest]) > 0) {
+        largest = left;
+      }
+      if (right < size && compare(a[lo + right], a[lo + largest]) > 0) {
+        largest = right;
+      }
+      if (largest === i) return;
+
+      swap(a, lo + i, lo + largest);
+      i = largest;
+    }
+  };
+
+  // Build max heap
+  for (let i = (n >>> 1) - 1; i >= 0; i--) {
+    siftDown(i, n);
+  }
+
+  // Extract elements from heap
+  for (let i = n - 1; i > 0; i--) {
+    swap(a, lo, lo + i);
+    siftDown(0, i);
+  }
+}
+
+/**
+ * Sorts a[lo, hi) in place with insertion sort
+ * @internal
+ */
+function insertionSortRange<T>(a: MutableArrayLike<T>, lo: number, hi: number, compare: CompareFn<T>): void {
+  for (let i = lo + 1; i < hi; i++) {
+    const key = a[i];
+    let j = i - 1;
+
+    while (j >= lo && compare(a[j], key) > 0) {
+      a[j + 1] = a[j];
+      j--;
+    }
+
+    a[j + 1] = key;
+    recordMoves(i - j);
+  }
+}
+
+/** @internal */
+function swap<T>(a: MutableArrayLike<T>, i: number, j: number): void {
+  const value = a[i];
+  a[i] = a[j];
+  a[j] = value;
+  if (recorder) recorder.metrics.swaps++;
+}
+
+/**
+ * Stable counting sort of items by non-negative integer keys no greater than max
+ * @internal
+ */
+function countingSortByKeys<T>(items: T[], keys: number[], max: number): T[] {
+  const count = new Array(max + 1).fill(0);
+  const result = new Array(items.length);
+
+  // Count occurrences
+  for (const key of keys) {
+    count[key]++;
+  }
+
+  // Calculate cumulative count
+  for (let i = 1; i < count.length; i++) {
+    count[i] += count[i - 1];
+  }
+
+  // Build output array, back to front so equal keys keep their order
+  for (let i = items.length - 1; i >= 0; i--) {
+    result[--count[keys[i]]] = items[i];
+  }
+  recordMoves(items.length);
+
+  return result;
+}
+
+/**
+ * Maps numeric keys to unsigned 32-bit words whose unsigned order matches
+ * the numeric order, least significant word first
+ * @internal
+ */
+function radixWords(keys: number[]): Uint32Array[] {
+  const n = keys.length;
+  if (keys.every((key) => Object.is(key, key | 0))) {
+    // Flipping the sign bit orders negative integers before positive ones
+    return [Uint32Array.from(keys, (key) => (key ^ 0x80000000) >>> 0)];
+  }
+
+  const low = new Uint32Array(n);
+  const high = new Uint32Array(n);
+  const view = new DataView(new ArrayBuffer(8));
+  for (let i = 0; i < n; i++) {
+    if (Number.isNaN(keys[i])) {
+      low[i] = high[i] = 0xffffffff;
+      continue;
+    }
+    view.setFloat64(0, keys[i]);
+    const hi = view.getUint32(0);
+    const lo = view.getUint32(4);
+    // Negative floats order in reverse, so flip all their bits; positive ones just need the sign bit set
+    if (hi & 0x80000000) {
+      high[i] = ~hi >>> 0;
+      low[i] = ~lo >>> 0;
+    } else {
+      high[i] = (hi | 0x80000000) >>> 0;
+      low[i] = lo;
+    }
+  }
+  return [low, high];
+}
+
+/**
+ * Stable LSD radix sort of items by numeric keys, one byte per pass
+ * @internal
+ */
+function radixSortByKeys<T>(items: T[], keys: number[]): T[] {
+  const n = items.length;
+  let order = Uint32Array.from(items, (_, i) => i);
+  let next = new Uint32Array(n);
+  const count = new Uint32Array(256);
+
+  for (const word of n > 1 ? radixWords(keys) : []) {
+    for (let shift = 0; shift < 32; shift += 8) {
+      count.fill(0);
+      for (let i = 0; i < n; i++) {
+        count[(word[order[i]] >>> shift) & 0xff]++;
+      }
+      if (count[(word[order[0]] >>> shift) & 0xff] === n) continue;
+
+      // Turn counts into starting offsets
+      for (let digit = 0, offset = 0; digit < 256; digit++) {
+        const size = count[digit];
+        count[digit] = offset;
+        offset += size;
+      }
+      for (let i = 0; i < n; i++) {
+        const index = order[i];
+        next[count[(word[index] >>> shift) & 0xff]++] = index;
+      }
+      [order, next] = [next, order];
+      recordMoves(n);
+    }
+  }
+
+  recordMoves(n);
+  return Array.from(order, (index) => items[index]);
+}
+
+/**
+ * Buckets of at most this many elements are finished by insertion sort during MSD radix sort
+ * @internal
+ */
+const MSD_CUTOFF = 16;
+
+/**
+ * Stable MSD radix sort of items by string keys. Digit d is the high (even d)
+ * or low (odd d) byte of code unit d >> 1, offset by one so that strings
+ * which have ended sort first. Buckets are processed from an explicit stack,
+ * so long common prefixes cannot overflow the call stack.
+ * @internal
+ */
+function msdRadixSort<T>(items: T[], keys: string[]): T[] {
+  const n = items.length;
+  const order = Array.from(items, (_, i) => i);
+  const buffer = new Array<number>(n);
+  const digit = (index: number, d: number): number => {
+    const key = keys[index];
+    const position = d >> 1;
+    if (position >= key.length) return 0;
+    const unit = key.charCodeAt(position);
+    return (d & 1 ? unit & 0xff : unit >> 8) + 1;
+  };
+
+  const stack: [number, number, number][] = n > 1 ? [[0, n, 0]] : [];
+  while (stack.length > 0) {
+    const [lo, hi, d] = stack.pop()!;
+
+    if (hi - lo <= MSD_CUTOFF) {
+      for (let i = lo + 1; i < hi; i++) {
+        const index = order[i];
+        let j = i - 1;
+        while (j >= lo && keys[order[j]] > keys[index]) {
+          order[j + 1] = order[j];
+          j--;
+        }
+        order[j + 1] = index;
+        recordComparisons(j >= lo ? i - j : i - j - 1);
+        recordMoves(i - j);
+      }
+      continue;
+    }
+
+    const count = new Array<number>(258).fill(0);
+    for (let i = lo; i < hi; i++) {
+      count[digit(order[i], d) + 1]++;
+    }
+    for (let bucket = 1; bucket < 258; bucket++) {
+      count[bucket] += count[bucket - 1];
+    }
+    for (let i = lo; i < hi; i++) {
+      buffer[lo + count[digit(order[i], d)]++] = order[i];
+    }
+    for (let i = lo; i < hi; i++) {
+      order[i] = buffer[i];
+    }
+    recordMoves(2 * (hi - lo));
+
+    // count[bucket] is now the end of each bucket; bucket 0 holds finished keys
+    for (let bucket = 1; bucket < 257; bucket++) {
+      const start = lo + count[bucket - 1];
+      const end = lo + count[bucket];
+      if (end - start > 1) {
+        stack.push([start, end, d + 1]);
+      }
+    }
+  }
+
+  recordMoves(n);
+  return order.map((index) => items[index]);
+}
+
+/**
+ * Runs shorter than this are sorted by binary insertion sort alone
+ * @internal
+ */
+const MIN_MERGE = 32;
+
+/**
+ * Initial number of consecutive wins by one run before merging switches to galloping
+ * @internal
+ */
+const MIN_GALLOP = 7;
+
+/**
+ * Sorts a[lo, hi) in place with TimSort: the array is split into natural
+ * runs (extended to a minimum length by binary insertion sort), and runs
+ * are merged pairwise, galloping through long stretches that come from one
+ * side. Runs only ever swap places when an element compares strictly less,
+ * so the sort is stable.
+ * @internal
+ */
+class TimSorter<T> {
+  private readonly runs: { base: number; length: number }[] = [];
+  private minGallop = MIN_GALLOP;
+
+  constructor(
+    private readonly a: T[],
+    private readonly compare: CompareFn<T>
+  ) {}
+
+  sort(lo: number, hi: number): void {
+    let remaining = hi - lo;
+    if (remaining < 2) return;
+
+    if (remaining < MIN_MERGE) {
+      this.binaryInsertionSort(lo, hi, lo + this.countRunAndMakeAscending(lo, hi));
+      return;
+    }
+
+    const minRun = TimSorter.minRunLength(remaining);
+    do {
+      let runLength = this.countRunAndMakeAscending(lo, hi);
+      if (runLength < minRun) {
+        const forced = Math.min(remaining, minRun);
+        this.binaryInsertionSort(lo, lo + forced, lo + runLength);
+        runLength = forced;
+      }
+
+      this.runs.push({ base: lo, length: runLength });
+      this.mergeCollapse();
+      lo += runLength;
+      remaining -= runLength;
+    } while (remaining !== 0);
+
+    this.mergeForceCollapse();
+  }
+
+  /**
+   * Picks a run length in [16, 32] such that n / minRun is a power of two
+   * or slightly less, which keeps the final merges balanced
+   */
+  private static minRunLength(n: number): number {
+    let r = 0;
+    while (n >= MIN_MERGE) {
+      r |= n & 1;
+      n >>= 1;
+    }
+    return n + r;
+  }
+
+  /**
+   * Returns the length of the run starting at lo, reversing it first if it
+   * is strictly descending (strictly, so that reversing keeps stability)
+   */
+  private countRunAndMakeAscending(lo: number, hi: number): number {
+    const { a, compare } = this;
+    let runHi = lo + 1;
+    if (runHi === hi) return 1;
+
+    if (compare(a[runHi++], a[lo]) < 0) {
+      while (runHi < hi && compare(a[runHi], a[runHi - 1]) < 0) runHi++;
+      for (let i = lo, j = runHi - 1; i < j; i++, j--) {
+        swap(a, i, j);
+      }
+    } else {
+      while (runHi < hi && compare(a[runHi], a[runHi - 1]) >= 0) runHi++;
+    }
+    return runHi - lo;
+  }
+
+  /**
+   * Sorts a[lo, hi) given that a[lo, start) is already sorted
+   */
+  private binaryInsertionSort(lo: number, hi: number, start: number): void {
+    const { a, compare } = this;
+    for (let i = Math.max(start, lo + 1); i < hi; i++) {
+      const pivot = a[i];
+      let left = lo;
+      let right = i;
+      // Insert after any equal elements, for stability
+      while (left < right) {
+        const mid = (left + right) >>> 1;
+        if (compare(pivot, a[mid]) < 0) {
+          right = mid;
+        } else {
+          left = mid + 1;
+        }
+      }
+      for (let j = i; j > left; j--) {
+        a[j] = a[j - 1];
+      }
+      a[left] = pivot;
+      recordMoves(i - left + 1);
+    }
+  }
+
+  /**
+   * Merges runs until the stack invariants hold again: each run is longer
+   * than the next two combined, and longer than the next one. Checking the
+   * fourth run from the top as well avoids the invariant violation found in
+   * the original algorithm.
+   */
+  private mergeCollapse(): void {
+    const runs = this.runs;
+    while (runs.length > 1) {
+      let n = runs.length - 2;
+      if (
+        (n > 0 && runs[n - 1].length <= runs[n].length + runs[n + 1].length) ||
+        (n > 1 && runs[n - 2].length <= runs[n - 1].length + runs[n].length)
+      ) {
+        if (runs[n - 1].length < runs[n + 1].length) n--;
+      } else if (runs[n].length > runs[n + 1].length) {
+        break;
+      }
+      this.mergeAt(n);
+    }
+  }
+
+  private mergeForceCollapse(): void {
+    const runs = this.runs;
+    while (runs.length > 1) {
+      let n = runs.length - 2;
+      if (n > 0 && runs[n - 1].length < runs[n + 1].length) n--;
+      this.mergeAt(n);
+    }
+  }
+
+  /**
+   * Merges the runs at stack positions i and i + 1
+   */
+  private mergeAt(i: number): void {
+    const { a } = this;
+    let { base: base1, length: length1 } = this.runs[i];
+    const { base: base2 } = this.runs[i + 1];
+    let length2 = this.runs[i + 1].length;
+
+    this.runs[i] = { base: base1, length: length1 + length2 };
+    this.runs.splice(i + 1, 1);
+
+    // Elements of run 1 that are already in place need not move
+    const k = this.gallopRight(a[base2], a, base1, length1, 0);
+    base1 += k;
+    length1 -= k;
+    if (length1 === 0) return;
+
+    // Likewise for the elements at the end of run 2
+    length2 = this.gallopLeft(a[base1 + length1 - 1], a, base2, length2, length2 - 1);
+    if (length2 === 0) return;
+
+    // Every remaining position is written once, after the shorter run is copied aside
+    recordMoves(length1 + length2 + Math.min(length1, length2));
+
+    if (length1 <= length2) {
+      this.mergeLo(base1, length1, base2, length2);
+    } else {
+      this.mergeHi(base1, length1, base2, length2);
+    }
+  }
+
+  /**
+   * Returns the leftmost position in the sorted range arr[base, base + length)
+   * at which key could be inserted, searching outwards from base + hint
+   */
+  private gallopLeft(key: T, arr: T[], base: number, length: number, hint: number): number {
+    const { compare } = this;
+    let lastOffset = 0;
+    let offset = 1;
+
+    if (compare(key, arr[base + hint]) > 0) {
+      const maxOffset = length - hint;
+      while (offset < maxOffset && compare(key, arr[base + hint + offset]) > 0) {
+        lastOffset = offset;
+        offset = offset * 2 + 1;
+      }
+      offset = Math.min(offset, maxOffset);
+      lastOffset += hint;
+      offset += hint;
+    } else {
+      const maxOffset = hint + 1;
+      while (offset < maxOffset && compare(key, arr[base + hint - offset]) <= 0) {
+        lastOffset = offset;
+        offset = offset * 2 + 1;
+      }
+      offset = Math.min(offset, maxOffset);
+      [lastOffset, offset] = [hint - offset, hint - lastOffset];
+    }
+
+    // arr[base + lastOffset] < key <= arr[base + offset]; binary search in between
+    lastOffset++;
+    while (lastOffset < offset) {
+      const mid = lastOffset + ((offset - lastOffset) >>> 1);
+      if (compare(key, arr[base + mid]) > 0) {
+        lastOffset = mid + 1;
+      } else {
+        offset = mid;
+      }
+    }
+    return offset;
+  }
+
+  /**
+   * Returns the rightmost position in the sorted range arr[base, base + length)
+   * at which key could be inserted, searching outwards from base + hint
+   */
+  private gallopRight(key: T, arr: T[], base: number, length: number, hint: number): number {
+    const { compare } = this;
+    let lastOffset = 0;
+    let offset = 1;
+
+    if (compare(key, arr[base + hint]) < 0) {
+      const maxOffset = hint + 1;
+      while (offset < maxOffset && compare(key, arr[base + hint - offset]) < 0) {
+        lastOffset = offset;
+        offset = offset * 2 + 1;
+      }
+      offset = Math.min(offset, maxOffset);
+      [lastOffset, offset] = [hint - offset, hint - lastOffset];
+    } else {
+      const maxOffset = length - hint;
+      while (offset < maxOffset && compare(key, arr[base + hint + offset]) >= 0) {
+        lastOffset = offset;
+        offset = offset * 2 + 1;
+      }
+      offset = Math.min(offset, maxOffset);
+      lastOffset += hint;
+      offset += hint;
+    }
+
+    // arr[base + lastOffset] <= key < arr[base + offset]; binary search in between
+    lastOffset++;
+    while (lastOffset < offset) {
+      const mid = lastOffset + ((offset - lastOffset) >>> 1);
+      if (compare(key, arr[base + mid]) < 0) {
+        offset = mid;
+      } else {
+        lastOffset = mid + 1;
+      }
+    }
+    return offset;
+  }
+
+  /**
+   * Merges two adjacent runs left to right, copying the shorter first run
+   * aside. Expects a[base1] > a[base2] and the last element of run 1 to be
+   * greater than every element of run 2.
+   */
+  private mergeLo(base1: number, length1: number, base2: number, length2: number): void {
+    const { a, compare } = this;
+    const tmp = a.slice(base1, base1 + length1);
+    let cursor1 = 0;
+    let cursor2 = base2;
+    let dest = base1;
+
+    a[dest++] = a[cursor2++];
+    if (--length2 === 0) {
+      copy(tmp, cursor1, a, dest, length1);
+      return;
+    }
+    if (length1 === 1) {
+      copy(a, cursor2, a, dest, length2);
+      a[dest + length2] = tmp[cursor1];
+      return;
+    }
+
+    let minGallop = this.minGallop;
+    outer: while (true) {
+      let count1 = 0; // Consecutive wins by run 1
+      let count2 = 0; // Consecutive wins by run 2
+
+      // Merge one element at a time until one run starts winning consistently
+      do {
+        if (compare(a[cursor2], tmp[cursor1]) < 0) {
+          a[dest++] = a[cursor2++];
+          count2++;
+          count1 = 0;
+          if (--length2 === 0) break outer;
+        } else {
+          a[dest++] = tmp[cursor1++];
+          count1++;
+          count2 = 0;
+          if (--length1 === 1) break outer;
+        }
+      } while ((count1 | count2) < minGallop);
+
+      // Gallop: find how many elements of one run precede the next of the other, and copy them in bulk
+      do {
+        count1 = this.gallopRight(a[cursor2], tmp, cursor1, length1, 0);
+        if (count1 !== 0) {
+          copy(tmp, cursor1, a, dest, count1);
+          dest += count1;
+          cursor1 += count1;
+          length1 -= count1;
+          if (length1 <= 1) break outer;
+        }
+        a[dest++] = a[cursor2++];
+        if (--length2 === 0) break outer;
+
+        count2 = this.gallopLeft(tmp[cursor1], a, cursor2, length2, 0);
+        if (count2 !== 0) {
+          copy(a, cursor2, a, dest, count2);
+          dest += count2;
+          cursor2 += count2;
+          length2 -= count2;
+          if (length2 === 0) break outer;
+        }
+        a[dest++] = tmp[cursor1++];
+        if (--length1 === 1) break outer;
+        minGallop--;
+      } while (count1 >= MIN_GALLOP || count2 >= MIN_GALLOP);
+
+      // Galloping stopped paying off; make it harder to enter again
+      minGallop = Math.max(minGallop, 0) + 2;
+    }
+    this.minGallop = Math.max(minGallop, 1);
+
+    if (length1 === 1) {
+      copy(a, cursor2, a, dest, length2);
+      a[dest + length2] = tmp[cursor1];
+    } else if (length1 === 0) {
+      throw new Error("Comparison function is inconsistent");
+    } else {
+      copy(tmp, cursor1, a, dest, length1);
+    }
+  }
+
+  /**
+   * Merges two adjacent runs right to left, copying the shorter second run
+   * aside. Expects the same preconditions as mergeLo.
+   */
+  private mergeHi(base1: number, length1: number, base2: number, length2: number): void {
+    const { a, compare } = this;
+    const tmp = a.slice(base2, base2 + length2);
+    let cursor1 = base1 + length1 - 1;
+    let cursor2 = length2 - 1;
+    let dest = base2 + length2 - 1;
+
+    a[dest--] = a[cursor1--];
+    if (--length1 === 0) {
+      copy(tmp, 0, a, dest - (length2 - 1), length2);
+      return;
+    }
+    if (length2 === 1) {
+      dest -= length1;
+      cursor1 -= length1;
+      copy(a, cursor1 + 1, a, dest + 1, length1);
+      a[dest] = tmp[cursor2];
+      return;
+    }
+
+    let minGallop = this.minGallop;
+    outer: while (true) {
+      let count1 = 0; // Consecutive wins by run 1
+      let count2 = 0; // Consecutive wins by run 2
+
+      do {
+        if (compare(tmp[cursor2], a[cursor1]) < 0) {
+          a[dest--] = a[cursor1--];
+          count1++;
+          count2 = 0;
+          if (--length1 === 0) break outer;
+        } else {
+          a[dest--] = tmp[cursor2--];
+          count2++;
+          count1 = 0;
+          if (--length2 === 1) break outer;
+        }
+      } while ((count1 | count2) < minGallop);
+
+      do {
+        count1 = length1 - this.gallopRight(tmp[cursor2], a, base1, length1, length1 - 1);
+        if (count1 !== 0) {
+          dest -= count1;
+          cursor1 -= count1;
+          length1 -= count1;
+          copy(a, cursor1 + 1, a, dest + 1, count1);
+          if (length1 === 0) break outer;
+        }
+        a[dest--] = tmp[cursor2--];
+        if (--length2 === 1) break outer;
+
+        count2 = length2 - this.gallopLeft(a[cursor1], tmp, 0, length2, length2 - 1);
+        if (count2 !== 0) {
+          dest -= count2;
+          cursor2 -= count2;
+          length2 -= count2;
+          copy(tmp, cursor2 + 1, a, dest + 1, count2);
+          if (length2 <= 1) break outer;
+        }
+        a[dest--] = a[cursor1--];
+        if (--length1 === 0) break outer;
+        minGallop--;
+      } while (count1 >= MIN_GALLOP || count2 >= MIN_GALLOP);
+
+      minGallop = Math.max(minGallop, 0) + 2;
+    }
+    this.minGallop = Math.max(minGallop, 1);
+
+    if (length2 === 1) {
+      dest -= length1;
+      cursor1 -= length1;
+      copy(a, cursor1 + 1, a, dest + 1, length1);
+      a[dest] = tmp[cursor2];
+    } else if (length2 === 0) {
+      throw new Error("Comparison function is inconsistent");
+    } else {
+      copy(tmp, 0, a, dest - (length2 - 1), length2);
+    }
+  }
+}
+
+/**
+ * Copies length elements between arrays, handling overlapping ranges of the same array
+ * @internal
+ */
+function copy<T>(source: T[], sourceStart: number, target: T[], targetStart: number, length: number): void {
+  if (source === target && sourceStart < targetStart) {
+    for (let i = length - 1; i >= 0; i--) {
+      target[targetStart + i] = source[sourceStart + i];
+    }
+  } else {
+    for (let i = 0; i < length; i++) {
+      target[targetStart + i] = source[sourceStart + i];
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { CompareFn, Comparators } from "../utils/comparators";
+
 /**
  * Base class for heap implementations providing common functionality.
  * This abstract class implements the core heap operations while allowing
@@ -235,7 +237,7 @@ export class MinHeap<T> extends Heap<T> {
    * @internal
    */
   protected compare(a: T, b: T): number {
-    return (a as any) - (b as any);
+    return Comparators.natural(a, b);
   }
 }
 
@@ -293,7 +295,7 @@ export class MaxHeap<T> extends Heap<T> {
    * @internal
    */
   protected compare(a: T, b: T): number {
-    return (b as any) - (a as any);
+    return Comparators.natural(b, a);
   }
 }
 
@@ -314,7 +316,7 @@ export class MaxHeap<T> extends Heap<T> {
  * ```
  */
 export class CustomHeap<T> extends Heap<T> {
-  private readonly compareFn: (a: T, b: T) => number;
+  private readonly compareFn: CompareFn<T>;
   h: any;
 
   /**
@@ -322,7 +324,7 @@ export class CustomHeap<T> extends Heap<T> {
    *
    * @param compareFn - Function to determine element ordering
    */
-  constructor(compareFn: (a: T, b: T) => number) {
+  constructor(compareFn: CompareFn<T>) {
     super();
     this.compareFn = compareFn;
   }
@@ -334,7 +336,7 @@ export class CustomHeap<T> extends Heap<T> {
    * @param compareFn - Function to determine element ordering
    * @returns A new CustomHeap containing all elements
    */
-  static from<T>(elements: T[], compareFn: (a: T, b: T) => number): CustomHeap<T> {
+  static from<T>(elements: T[], compareFn: CompareFn<T>): CustomHeap<T> {
     if (!Array.isArray(elements)) {
       throw new TypeError("Elements must be an array");
     }
@@ -431,7 +433,140 @@ export class BinaryHeap<T> extends Heap<T> {
    * @internal
    */
   protected compare(a: T, b: T): number {
-    const diff = (a as any) - (b as any);
-    return this.type === "min" ? diff : -diff;
+    return this.type === "min" ? Comparators.natural(a, b) : Comparators.natural(b, a);
+  }
+}
+
+/**
+ * A heap that holds at most a fixed number of elements. While full, adding
+ * an element larger than the root replaces the root, and adding anything
+ * else leaves the heap unchanged, so it retains the largest elements it has
+ * seen with the smallest of them at the root.
+ *
+ * @template T The type of elements in the heap
+ * @example
+ * ```typescript
+ * const top3 = BoundedHeap.from([5, 1, 9, 3, 7], 3);
+ * console.log(top3.peek()); // 5
+ * console.log([...top3]); // [5, 7, 9]
+ * console.log(top3.add(2) === top3); // true
+ * ```
+ */
+export class BoundedHeap<T> extends Heap<T> {
+  private readonly capacity: number;
+  private readonly compareFn: CompareFn<T>;
+
+  /**
+   * Creates a new empty BoundedHeap
+   *
+   * @param capacity - Maximum number of elements to retain
+   * @param compareFn - Optional comparison function. Defaults to Comparators.natural
+   * @throws {Error} If capacity is not a non-negative integer
+   * @throws {TypeError} If compareFn is not a function
+   */
+  constructor(capacity: number, compareFn: CompareFn<T> = Comparators.natural) {
+    super();
+    if (!Number.isInteger(capacity) || capacity < 0) {
+      throw new Error("Capacity must be a non-negative integer");
+    }
+    if (typeof compareFn !== "function") {
+      throw new TypeError("Comparison function must be a function");
+    }
+    this.capacity = capacity;
+    this.compareFn = compareFn;
+  }
+
+  /**
+   * Creates a BoundedHeap retaining the largest elements of an array
+   * Time Complexity: O(n log k) where k is the capacity
+   *
+   * @param elements - Array of elements to offer to the heap
+   * @param capacity - Maximum number of elements to retain
+   * @param compareFn - Optional comparison function
+   * @returns A new BoundedHeap containing the largest elements
+   */
+  static from<T>(elements: T[], capacity: number, compareFn?: CompareFn<T>): BoundedHeap<T> {
+    if (!Array.isArray(elements)) {
+      throw new TypeError("Elements must be an array");
+    }
+    const heap = new BoundedHeap<T>(capacity, compareFn);
+    for (const element of elements) {
+      heap.offer(element);
+    }
+    return heap;
+  }
+
+  /**
+   * Creates a new heap with an element added, evicting the root when full
+   *
+   * @param element - Element to add to the heap
+   * @returns A new BoundedHeap, or this heap if the element is not retained
+   * @throws {TypeError} If element is null or undefined
+   */
+  add(element: T): BoundedHeap<T> {
+    if (element === null || element === undefined) {
+      throw new TypeError("Element cannot be null or undefined");
+    }
+    if (!this.accepts(element)) {
+      return this;
+    }
+
+    const newHeap = this.clone();
+    newHeap.offer(element);
+    return newHeap;
+  }
+
+  /**
+   * Creates a new heap with the root (smallest retained) element removed
+   *
+   * @returns Object containing the removed element and the new heap
+   */
+  remove(): { element: T | undefined; heap: BoundedHeap<T> } {
+    return super.remove() as { element: T | undefined; heap: BoundedHeap<T> };
+  }
+
+  /**
+   * Checks if the heap holds as many elements as its capacity
+   */
+  isFull(): boolean {
+    return this.elements.length >= this.capacity;
+  }
+
+  /**
+   * Creates a new BoundedHeap with the same capacity and comparison function
+   * @internal
+   */
+  protected clone(): BoundedHeap<T> {
+    const newHeap = new BoundedHeap<T>(this.capacity, this.compareFn);
+    newHeap.elements.push(...this.elements);
+    return newHeap;
+  }
+
+  /**
+   * Uses the custom comparison function
+   * @internal
+   */
+  protected compare(a: T, b: T): number {
+    return this.compareFn(a, b);
+  }
+
+  private accepts(element: T): boolean {
+    return !this.isFull() || (this.capacity > 0 && this.compareFn(element, this.elements[0]) > 0);
+  }
+
+  /**
+   * Adds an element to this heap's own storage; only used on heaps still being built
+   * @internal
+   */
+  private offer(element: T): void {
+    if (!this.accepts(element)) return;
+
+    if (this.isFull()) {
+      this.elements[0] = element;
+      this.bubbleDown(this.elements, 0);
+    } else {
+      this.elements.push(element);
+      this.bubbleUp(this.elements, this.elements.length - 1);
+    }
   }
 }
@@ -1,3 +1,5 @@
+import { defaultEquals, EqualsFn } from "../utils/comparators";
+
 /**
  * Node interface for linked list implementations.
  * @internal
@@ -18,9 +20,54 @@ interface DoubleNode<T> extends Node<T> {
   next: DoubleNode<T> | null;
 }
 
+/**
+ * Accumulates elements in order and produces a list from them.
+ * Appending is O(1), so a list of n elements is built in O(n) rather than
+ * the O(n²) of repeated append calls. The builder may keep appending after
+ * build() without affecting the lists it has already produced.
+ *
+ * @template T The type of elements in the list
+ * @template L The type of list produced
+ */
+export interface ListBuilder<T, L> {
+  /** Adds an element to the end */
+  append(value: T): ListBuilder<T, L>;
+  /** Adds every element of an iterable to the end, in order */
+  appendAll(values: Iterable<T>): ListBuilder<T, L>;
+  /** Returns the number of elements appended so far */
+  size(): number;
+  /** Returns a list of the elements appended so far */
+  build(): L;
+}
+
+/**
+ * Builds nodes holding values, in order, in front of an existing chain
+ * @internal
+ */
+function prependAll<T>(values: T[], rest: Node<T> | null): Node<T> | null {
+  let head = rest;
+  for (let i = values.length - 1; i >= 0; i--) {
+    head = { value: values[i], next: head };
+  }
+  return head;
+}
+
+/**
+ * Resolves a slice index the way Array.prototype.slice does: negative
+ * indices count back from the end, and the result is clamped to [0, size]
+ * @internal
+ */
+function clampIndex(index: number, size: number): number {
+  const integer = Math.trunc(index) || 0;
+  return integer < 0 ? Math.max(size + integer, 0) : Math.min(integer, size);
+}
+
 /**
  * A functional singly linked list implementation.
  * All operations create new instances, preserving immutability.
+ * Nodes are shared between versions: prepend is O(1), and remove copies
+ * only the nodes before the removed element. Appending copies the whole
+ * list, so build long lists with LinkedList.builder() or concat.
  *
  * @template T The type of elements in the list
  * @example
@@ -28,16 +75,28 @@ interface DoubleNode<T> extends Node<T> {
  * const list = new LinkedList<number>();
  * const list2 = list.prepend(1).append(2).prepend(0);
  * const list3 = list2.remove(1);
+ *
+ * const builder = LinkedList.builder<number>();
+ * for (let i = 0; i < 100000; i++) builder.append(i);
+ * const big = builder.build(); // O(n) overall
  * ```
  */
 export class LinkedList<T> {
   private head: Node<T> | null;
   private _size: number;
+  private readonly equals: EqualsFn<T>;
 
   /**
    * Creates a new empty LinkedList
+   *
+   * @param equals - Optional equality used by contains, indexOf and remove. Defaults to ===
+   * @throws {TypeError} If equals is not a function when provided
    */
-  constructor() {
+  constructor(equals: EqualsFn<T> = defaultEquals) {
+    if (typeof equals !== "function") {
+      throw new TypeError("Equality function must be a function");
+    }
+    this.equals = equals;
     this.head = null;
     this._size = 0;
   }
@@ -46,10 +105,64 @@ export class LinkedList<T> {
    * Creates a LinkedList from an array of elements
    *
    * @param elements - Array of elements to add to the list
+   * @param equals - Optional equality for the new list
    * @returns A new LinkedList containing all elements
    */
-  static from<T>(elements: T[]): LinkedList<T> {
-    return elements.reduce((list, element) => list.append(element), new LinkedList<T>());
+  static from<T>(elements: T[], equals?: EqualsFn<T>): LinkedList<T> {
+    return LinkedList.builder<T>(equals).appendAll(elements).build();
+  }
+
+  /**
+   * Creates a builder that appends elements in O(1) each
+   *
+   * @param equals - Optional equality for the lists it builds
+   * @returns A new empty ListBuilder producing LinkedLists
+   */
+  static builder<T>(equals?: EqualsFn<T>): ListBuilder<T, LinkedList<T>> {
+    let head: Node<T> | null = null;
+    let tail: Node<T> | null = null;
+    let size = 0;
+    // Set once build() hands the nodes to a list; the next append copies them
+    let shared = false;
+
+    const builder: ListBuilder<T, LinkedList<T>> = {
+      append(value) {
+        if (shared) {
+          let current = head;
+          head = tail = null;
+          size = 0;
+          shared = false;
+          for (; current !== null; current = current.next) {
+            builder.append(current.value);
+          }
+        }
+
+        const node: Node<T> = { value, next: null };
+        if (tail === null) {
+          head = node;
+        } else {
+          tail.next = node;
+        }
+        tail = node;
+        size++;
+        return builder;
+      },
+      appendAll(values) {
+        for (const value of values) {
+          builder.append(value);
+        }
+        return builder;
+      },
+      size: () => size,
+      build() {
+        shared = true;
+        const list = new LinkedList<T>(equals);
+        list.head = head;
+        list._size = size;
+        return list;
+      },
+    };
+    return builder;
   }
 
   /**
@@ -82,97 +195,92 @@ export class LinkedList<T> {
    * @returns A new LinkedList with the element added
    */
   prepend(value: T): LinkedList<T> {
-    const list = new LinkedList<T>();
+    const list = new LinkedList<T>(this.equals);
     list.head = { value, next: this.head };
     list._size = this._size + 1;
     return list;
   }
 
   /**
-   * Creates a new list with an element added to the end
+   * Creates a new list with an element added to the end. Every node is
+   * copied, so appending n elements one call at a time takes O(n²); to
+   * build a list element by element in O(n), use LinkedList.builder().
+   * Time Complexity: O(n)
    *
    * @param value - Element to add
    * @returns A new LinkedList with the element added
    */
   append(value: T): LinkedList<T> {
+    return this.concat(new LinkedList<T>(this.equals).prepend(value));
+  }
+
+  /**
+   * Creates a new list with the elements of another list added to the end.
+   * Only this list's nodes are copied; the other list is shared.
+   * Time Complexity: O(n) where n is the size of this list
+   *
+   * @param other - List whose elements follow this list's
+   * @returns A new LinkedList containing both lists' elements
+   */
+  concat(other: LinkedList<T>): LinkedList<T> {
+    if (other.isEmpty()) {
+      return this;
+    }
     if (this.isEmpty()) {
-      return this.prepend(value);
+      // Share the other list's nodes but keep this list's equality
+      return other.equals === this.equals ? other : this.withHead(other.head, other._size);
     }
 
-    const list = new LinkedList<T>();
-    list._size = this._size + 1;
+    const list = new LinkedList<T>(this.equals);
+    list._size = this._size + other._size;
 
-    // Create new nodes, preserving immutability
-    const newNode = { value, next: null };
-    let current: Node<T> | null = null;
     let previous: Node<T> | null = null;
-
-    // Copy existing nodes
-    let oldCurrent = this.head;
-    while (oldCurrent !== null) {
-      current = { value: oldCurrent.value, next: null };
+    for (let current = this.head; current !== null; current = current.next) {
+      const node: Node<T> = { value: current.value, next: null };
       if (previous === null) {
-        list.head = current;
+        list.head = node;
       } else {
-        previous.next = current;
+        previous.next = node;
       }
-      previous = current;
-      oldCurrent = oldCurrent.next;
-    }
-
-    if (previous) {
-      previous.next = newNode;
+      previous = node;
     }
+    previous!.next = other.head;
 
     return list;
   }
 
   /**
-   * Creates a new list with the first matching element removed
+   * Creates a new list with the first matching element removed.
+   * The nodes after the removed element are shared with this list.
    *
    * @param value - Element to remove
-   * @returns A new LinkedList with the element removed
+   * @param equals - Optional equality for this call. Defaults to the list's
+   * @returns A new LinkedList with the element removed, or this list if the element is absent
    */
-  remove(value: T): LinkedList<T> {
-    if (this.isEmpty()) {
-      return this;
-    }
-
-    // If removing head
-    if (this.head!.value === value) {
-      const list = new LinkedList<T>();
-      list.head = this.head!.next;
-      list._size = this._size - 1;
-      return list;
-    }
-
-    const list = new LinkedList<T>();
-    list._size = this._size - 1;
-
-    let current: Node<T> | null = null;
-    let previous: Node<T> | null = null;
-    let found = false;
-
-    // Copy nodes until we find the value to remove
-    let oldCurrent = this.head;
-    while (oldCurrent !== null) {
-      if (!found && oldCurrent.value === value) {
-        found = true;
-        oldCurrent = oldCurrent.next;
-        continue;
-      }
+  remove(value: T, equals: EqualsFn<T> = this.equals): LinkedList<T> {
+    return this.removeAt(this.indexOf(value, equals));
+  }
 
-      current = { value: oldCurrent.value, next: null };
-      if (previous === null) {
-        list.head = current;
-      } else {
-        previous.next = current;
-      }
-      previous = current;
-      oldCurrent = oldCurrent.next;
-    }
+  /**
+   * Creates a new list with every matching element removed.
+   * The nodes after the last removed element are shared with this list.
+   *
+   * @param value - Element to remove
+   * @param equals - Optional equality for this call. Defaults to the list's
+   * @returns A new LinkedList without the element, or this list if the element is absent
+   */
+  removeAll(value: T, equals: EqualsFn<T> = this.equals): LinkedList<T> {
+    return this.removeWhere((element) => equals(element, value));
+  }
 
-    return found ? list : this;
+  /**
+   * Creates a new list with every element that satisfies a predicate removed
+   *
+   * @param predicate - Function tested against each element
+   * @returns A new LinkedList without the matching elements, or this list if none match
+   */
+  removeWhere(predicate: (value: T, index: number) => boolean): LinkedList<T> {
+    return this.filter((value, index) => !predicate(value, index));
   }
 
   /**
@@ -181,7 +289,7 @@ export class LinkedList<T> {
    * @returns A new LinkedList with elements in reverse order
    */
   reverse(): LinkedList<T> {
-    const list = new LinkedList<T>();
+    const list = new LinkedList<T>(this.equals);
     list._size = this._size;
 
     let prev: Node<T> | null = null;
@@ -201,17 +309,213 @@ export class LinkedList<T> {
    * Checks if a value exists in the list
    *
    * @param value - Value to search for
+   * @param equals - Optional equality for this call. Defaults to the list's
    * @returns true if the value is found
    */
-  contains(value: T): boolean {
-    let current = this.head;
-    while (current !== null) {
-      if (current.value === value) {
-        return true;
+  contains(value: T, equals: EqualsFn<T> = this.equals): boolean {
+    return this.indexOf(value, equals) !== -1;
+  }
+
+  /**
+   * Returns the element at an index, counting back from the end when negative
+   *
+   * @param index - Position of the element
+   * @returns The element or undefined if the index is out of range
+   */
+  at(index: number): T | undefined {
+    const position = index < 0 ? this._size + index : index;
+    return this.nodeAt(position)?.value;
+  }
+
+  /**
+   * Returns the index of the first matching element
+   *
+   * @param value - Element to search for
+   * @param equals - Optional equality for this call. Defaults to the list's
+   * @returns The index or -1 if the element is absent
+   */
+  indexOf(value: T, equals: EqualsFn<T> = this.equals): number {
+    return this.findIndex((element) => equals(element, value));
+  }
+
+  /**
+   * Returns the first element that satisfies a predicate
+   *
+   * @param predicate - Function tested against each element
+   * @returns The element or undefined if none matches
+   */
+  find(predicate: (value: T, index: number) => boolean): T | undefined {
+    const index = this.findIndex(predicate);
+    return index === -1 ? undefined : this.nodeAt(index)!.value;
+  }
+
+  /**
+   * Checks if any element satisfies a predicate
+   */
+  some(predicate: (value: T, index: number) => boolean): boolean {
+    return this.findIndex(predicate) !== -1;
+  }
+
+  /**
+   * Checks if every element satisfies a predicate
+   */
+  every(predicate: (value: T, index: number) => boolean): boolean {
+    return this.findIndex((value, index) => !predicate(value, index)) === -1;
+  }
+
+  /**
+   * Creates a new list with every element transformed
+   *
+   * @param fn - Function applied to each element
+   * @returns A new LinkedList of transformed elements
+   */
+  map<U>(fn: (value: T, index: number) => U): LinkedList<U> {
+    const builder = LinkedList.builder<U>();
+    let index = 0;
+    for (const value of this) {
+      builder.append(fn(value, index++));
+    }
+    return builder.build();
+  }
+
+  /**
+   * Creates a new list of the elements that satisfy a predicate.
+   * The nodes after the last removed element are shared with this list.
+   *
+   * @param predicate - Function tested against each element
+   * @returns A new LinkedList of matching elements, or this list if every element matches
+   */
+  filter(predicate: (value: T, index: number) => boolean): LinkedList<T> {
+    const kept: T[] = [];
+    let keptBeforeRest = 0;
+    let rest = this.head;
+    let index = 0;
+
+    for (let node = this.head; node !== null; node = node.next) {
+      if (predicate(node.value, index++)) {
+        kept.push(node.value);
+      } else {
+        keptBeforeRest = kept.length;
+        rest = node.next;
       }
-      current = current.next;
     }
-    return false;
+
+    if (kept.length === this._size) {
+      return this;
+    }
+    return this.withHead(prependAll(kept.slice(0, keptBeforeRest), rest), kept.length);
+  }
+
+  /**
+   * Combines the elements from first to last into a single value
+   *
+   * @param fn - Function combining the accumulator with each element
+   * @param initial - Initial accumulator
+   * @returns The final accumulator
+   */
+  reduce<U>(fn: (accumulator: U, value: T, index: number) => U, initial: U): U {
+    let accumulator = initial;
+    let index = 0;
+    for (const value of this) {
+      accumulator = fn(accumulator, value, index++);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Creates a new list with an element inserted at an index.
+   * The nodes from the index onwards are shared with this list.
+   * Time Complexity: O(index)
+   *
+   * @param index - Position of the new element, from 0 to size()
+   * @param value - Element to insert
+   * @returns A new LinkedList with the element inserted
+   * @throws {RangeError} If the index is out of range
+   */
+  insertAt(index: number, value: T): LinkedList<T> {
+    if (!Number.isInteger(index) || index < 0 || index > this._size) {
+      throw new RangeError("Index out of range");
+    }
+    return this.withHead(this.copyOnto(index, { value, next: this.nodeAt(index) }), this._size + 1);
+  }
+
+  /**
+   * Creates a new list with the element at an index removed.
+   * The nodes after the index are shared with this list.
+   * Time Complexity: O(index)
+   *
+   * @param index - Position of the element to remove
+   * @returns A new LinkedList without the element, or this list if the index is out of range
+   */
+  removeAt(index: number): LinkedList<T> {
+    const node = this.nodeAt(index);
+    if (!node) {
+      return this;
+    }
+    return this.withHead(this.copyOnto(index, node.next), this._size - 1);
+  }
+
+  /**
+   * Creates a new list of the elements from start up to, but not including,
+   * end. Negative indices count back from the end, as with Array.prototype.slice.
+   * A slice that runs to the end of the list shares its nodes with this list.
+   *
+   * @param start - Index of the first element (default 0)
+   * @param end - Index after the last element (default size())
+   * @returns A new LinkedList of the selected elements
+   */
+  slice(start: number = 0, end: number = this._size): LinkedList<T> {
+    const from = clampIndex(start, this._size);
+    const to = clampIndex(end, this._size);
+
+    if (from >= to) {
+      return new LinkedList<T>(this.equals);
+    }
+    if (to === this._size) {
+      return from === 0 ? this : this.withHead(this.nodeAt(from), to - from);
+    }
+
+    const builder = LinkedList.builder<T>(this.equals);
+    for (let node = this.nodeAt(from), i = from; i < to; node = node!.next, i++) {
+      builder.append(node!.value);
+    }
+    return builder.build();
+  }
+
+  /**
+   * Creates a new list of the first n elements
+   */
+  take(n: number): LinkedList<T> {
+    return this.slice(0, Math.max(n, 0));
+  }
+
+  /**
+   * Creates a new list without the first n elements, sharing the remaining nodes
+   */
+  drop(n: number): LinkedList<T> {
+    return this.slice(Math.max(n, 0));
+  }
+
+  /**
+   * Creates a new list pairing the elements of this list and another by
+   * position. The result is as long as the shorter list.
+   *
+   * @param other - List providing the second element of each pair
+   * @returns A new LinkedList of [element, otherElement] pairs
+   */
+  zip<U>(other: LinkedList<U>): LinkedList<[T, U]> {
+    const builder = LinkedList.builder<[T, U]>();
+    for (let a = this.head, b = other.head; a !== null && b !== null; a = a.next, b = b.next) {
+      builder.append([a.value, b.value]);
+    }
+    return builder.build();
+  }
+
+  /**
+   * Returns the elements in an array, first to last
+   */
+  toArray(): T[] {
+    return [...this];
   }
 
   /**
@@ -231,11 +535,54 @@ export class LinkedList<T> {
   toString(): string {
     return [...this].join(" -> ");
   }
+
+  private findIndex(predicate: (value: T, index: number) => boolean): number {
+    let index = 0;
+    for (let node = this.head; node !== null; node = node.next, index++) {
+      if (predicate(node.value, index)) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private nodeAt(index: number): Node<T> | null {
+    if (!Number.isInteger(index) || index < 0) {
+      return null;
+    }
+    let node = this.head;
+    for (let i = 0; i < index && node !== null; i++) {
+      node = node.next;
+    }
+    return node;
+  }
+
+  /**
+   * Copies the first count nodes onto a shared remainder
+   * @internal
+   */
+  private copyOnto(count: number, rest: Node<T> | null): Node<T> | null {
+    const values: T[] = [];
+    for (let node = this.head; values.length < count; node = node!.next) {
+      values.push(node!.value);
+    }
+    return prependAll(values, rest);
+  }
+
+  private withHead(head: Node<T> | null, size: number): LinkedList<T> {
+    const list = new LinkedList<T>(this.equals);
+    list.head = head;
+    list._size = size;
+    return list;
+  }
 }
 
 /**
  * A functional doubly linked list implementation.
  * All operations create new instances, preserving immutability.
+ * Every node links to both of its neighbours, so no node can be shared
+ * between versions and each update copies the list in O(n). Build long
+ * lists with DoublyLinkedList.builder() rather than repeated appends.
  *
  * @template T The type of elements in the list
  * @example
@@ -251,11 +598,19 @@ export class DoublyLinkedList<T> {
   private head: DoubleNode<T> | null;
   private tail: DoubleNode<T> | null;
   private _size: number;
+  private readonly equals: EqualsFn<T>;
 
   /**
    * Creates a new empty DoublyLinkedList
+   *
+   * @param equals - Optional equality used by contains, indexOf and remove. Defaults to ===
+   * @throws {TypeError} If equals is not a function when provided
    */
-  constructor() {
+  constructor(equals: EqualsFn<T> = defaultEquals) {
+    if (typeof equals !== "function") {
+      throw new TypeError("Equality function must be a function");
+    }
+    this.equals = equals;
     this.head = null;
     this.tail = null;
     this._size = 0;
@@ -265,10 +620,65 @@ export class DoublyLinkedList<T> {
    * Creates a DoublyLinkedList from an array of elements
    *
    * @param elements - Array of elements to add to the list
+   * @param equals - Optional equality for the new list
    * @returns A new DoublyLinkedList containing all elements
    */
-  static from<T>(elements: T[]): DoublyLinkedList<T> {
-    return elements.reduce((list, element) => list.append(element), new DoublyLinkedList<T>());
+  static from<T>(elements: T[], equals?: EqualsFn<T>): DoublyLinkedList<T> {
+    return DoublyLinkedList.builder<T>(equals).appendAll(elements).build();
+  }
+
+  /**
+   * Creates a builder that appends elements in O(1) each
+   *
+   * @param equals - Optional equality for the lists it builds
+   * @returns A new empty ListBuilder producing DoublyLinkedLists
+   */
+  static builder<T>(equals?: EqualsFn<T>): ListBuilder<T, DoublyLinkedList<T>> {
+    let head: DoubleNode<T> | null = null;
+    let tail: DoubleNode<T> | null = null;
+    let size = 0;
+    // Set once build() hands the nodes to a list; the next append copies them
+    let shared = false;
+
+    const builder: ListBuilder<T, DoublyLinkedList<T>> = {
+      append(value) {
+        if (shared) {
+          let current = head;
+          head = tail = null;
+          size = 0;
+          shared = false;
+          for (; current !== null; current = current.next) {
+            builder.append(current.value);
+          }
+        }
+
+        const node: DoubleNode<T> = { value, prev: tail, next: null };
+        if (tail === null) {
+          head = node;
+        } else {
+          tail.next = node;
+        }
+        tail = node;
+        size++;
+        return builder;
+      },
+      appendAll(values) {
+        for (const value of values) {
+          builder.append(value);
+        }
+        return builder;
+      },
+      size: () => size,
+      build() {
+        shared = true;
+        const list = new DoublyLinkedList<T>(equals);
+        list.head = head;
+        list.tail = tail;
+        list._size = size;
+        return list;
+      },
+    };
+    return builder;
   }
 
   /**
@@ -306,7 +716,7 @@ export class DoublyLinkedList<T> {
    * @returns A new DoublyLinkedList with the element added
    */
   prepend(value: T): DoublyLinkedList<T> {
-    const list = new DoublyLinkedList<T>();
+    const list = new DoublyLinkedList<T>(this.equals);
     list._size = this._size + 1;
 
     const newNode: DoubleNode<T> = {
@@ -360,7 +770,7 @@ export class DoublyLinkedList<T> {
       return this.prepend(value);
     }
 
-    const list = new DoublyLinkedList<T>();
+    const list = new DoublyLinkedList<T>(this.equals);
     list._size = this._size + 1;
 
     // Create new end node
@@ -402,49 +812,60 @@ export class DoublyLinkedList<T> {
   }
 
   /**
-   * Creates a new list with the first matching element removed
+   * Creates a new list with the elements of another list added to the end
+   * Time Complexity: O(n + m)
    *
-   * @param value - Element to remove
-   * @returns A new DoublyLinkedList with the element removed
+   * @param other - List whose elements follow this list's
+   * @returns A new DoublyLinkedList containing both lists' elements
    */
-  remove(value: T): DoublyLinkedList<T> {
-    if (this.isEmpty()) {
+  concat(other: DoublyLinkedList<T>): DoublyLinkedList<T> {
+    if (other.isEmpty()) {
       return this;
     }
+    return DoublyLinkedList.builder<T>(this.equals).appendAll(this).appendAll(other).build();
+  }
 
-    const list = new DoublyLinkedList<T>();
-    list._size = this._size - 1;
-
-    let current: DoubleNode<T> | null = null;
-    let previous: DoubleNode<T> | null = null;
-    let found = false;
-
-    let oldCurrent = this.head;
-    while (oldCurrent !== null) {
-      if (!found && oldCurrent.value === value) {
-        found = true;
-        oldCurrent = oldCurrent.next;
-        continue;
-      }
-
-      current = {
-        value: oldCurrent.value,
-        prev: previous,
-        next: null,
-      };
+  /**
+   * Creates a new list with the first matching element removed
+   *
+   * @param value - Element to remove
+   * @param equals - Optional equality for this call. Defaults to the list's
+   * @returns A new DoublyLinkedList with the element removed, or this list if the element is absent
+   */
+  remove(value: T, equals: EqualsFn<T> = this.equals): DoublyLinkedList<T> {
+    return this.removeAt(this.indexOf(value, equals));
+  }
 
-      if (previous === null) {
-        list.head = current;
-      } else {
-        previous.next = current;
-      }
+  /**
+   * Creates a new list with every matching element removed
+   *
+   * @param value - Element to remove
+   * @param equals - Optional equality for this call. Defaults to the list's
+   * @returns A new DoublyLinkedList without the element, or this list if the element is absent
+   */
+  removeAll(value: T, equals: EqualsFn<T> = this.equals): DoublyLinkedList<T> {
+    return this.removeWhere((element) => equals(element, value));
+  }
 
-      previous = current;
-      oldCurrent = oldCurrent.next;
-    }
+  /**
+   * Creates a new list with every element that satisfies a predicate removed
+   *
+   * @param predicate - Function tested against each element
+   * @returns A new DoublyLinkedList without the matching elements, or this list if none match
+   */
+  removeWhere(predicate: (value: T, index: number) => boolean): DoublyLinkedList<T> {
+    return this.filter((value, index) => !predicate(value, index));
+  }
 
-    list.tail = current;
-    return found ? list : this;
+  /**
+   * Checks if a value exists in the list
+   *
+   * @param value - Value to search for
+   * @param equals - Optional equality for this call. Defaults to the list's
+   * @returns true if the value is found
+   */
+  contains(value: T, equals: EqualsFn<T> = this.equals): boolean {
+    return this.indexOf(value, equals) !== -1;
   }
 
   /**
@@ -458,7 +879,7 @@ export class DoublyLinkedList<T> {
    * @returns A new DoublyLinkedList with elements in reverse order
    */
   reverse(): DoublyLinkedList<T> {
-    const list = new DoublyLinkedList<T>();
+    const list = new DoublyLinkedList<T>(this.equals);
     list._size = this._size;
 
     if (this.isEmpty()) {
@@ -490,6 +911,214 @@ export class DoublyLinkedList<T> {
     return list;
   }
 
+  /**
+   * Returns the element at an index, counting back from the end when negative.
+   * Walks from whichever end of the list is nearer.
+   *
+   * @param index - Position of the element
+   * @returns The element or undefined if the index is out of range
+   */
+  at(index: number): T | undefined {
+    const position = index < 0 ? this._size + index : index;
+    if (!Number.isInteger(position) || position < 0 || position >= this._size) {
+      return undefined;
+    }
+
+    if (position < this._size / 2) {
+      let node = this.head!;
+      for (let i = 0; i < position; i++) node = node.next!;
+      return node.value;
+    }
+    let node = this.tail!;
+    for (let i = this._size - 1; i > position; i--) node = node.prev!;
+    return node.value;
+  }
+
+  /**
+   * Returns the index of the first matching element
+   *
+   * @param value - Element to search for
+   * @param equals - Optional equality for this call. Defaults to the list's
+   * @returns The index or -1 if the element is absent
+   */
+  indexOf(value: T, equals: EqualsFn<T> = this.equals): number {
+    return this.findIndex((element) => equals(element, value));
+  }
+
+  /**
+   * Returns the first element that satisfies a predicate
+   *
+   * @param predicate - Function tested against each element
+   * @returns The element or undefined if none matches
+   */
+  find(predicate: (value: T, index: number) => boolean): T | undefined {
+    let index = 0;
+    for (const value of this) {
+      if (predicate(value, index++)) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks if any element satisfies a predicate
+   */
+  some(predicate: (value: T, index: number) => boolean): boolean {
+    return this.findIndex(predicate) !== -1;
+  }
+
+  /**
+   * Checks if every element satisfies a predicate
+   */
+  every(predicate: (value: T, index: number) => boolean): boolean {
+    return this.findIndex((value, index) => !predicate(value, index)) === -1;
+  }
+
+  /**
+   * Creates a new list with every element transformed
+   *
+   * @param fn - Function applied to each element
+   * @returns A new DoublyLinkedList of transformed elements
+   */
+  map<U>(fn: (value: T, index: number) => U): DoublyLinkedList<U> {
+    const builder = DoublyLinkedList.builder<U>();
+    let index = 0;
+    for (const value of this) {
+      builder.append(fn(value, index++));
+    }
+    return builder.build();
+  }
+
+  /**
+   * Creates a new list of the elements that satisfy a predicate
+   *
+   * @param predicate - Function tested against each element
+   * @returns A new DoublyLinkedList of matching elements, or this list if every element matches
+   */
+  filter(predicate: (value: T, index: number) => boolean): DoublyLinkedList<T> {
+    const builder = DoublyLinkedList.builder<T>(this.equals);
+    let index = 0;
+    for (const value of this) {
+      if (predicate(value, index++)) {
+        builder.append(value);
+      }
+    }
+    return builder.size() === this._size ? this : builder.build();
+  }
+
+  /**
+   * Combines the elements from first to last into a single value
+   *
+   * @param fn - Function combining the accumulator with each element
+   * @param initial - Initial accumulator
+   * @returns The final accumulator
+   */
+  reduce<U>(fn: (accumulator: U, value: T, index: number) => U, initial: U): U {
+    let accumulator = initial;
+    let index = 0;
+    for (const value of this) {
+      accumulator = fn(accumulator, value, index++);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Creates a new list with an element inserted at an index
+   *
+   * @param index - Position of the new element, from 0 to size()
+   * @param value - Element to insert
+   * @returns A new DoublyLinkedList with the element inserted
+   * @throws {RangeError} If the index is out of range
+   */
+  insertAt(index: number, value: T): DoublyLinkedList<T> {
+    if (!Number.isInteger(index) || index < 0 || index > this._size) {
+      throw new RangeError("Index out of range");
+    }
+
+    const builder = DoublyLinkedList.builder<T>(this.equals);
+    let i = 0;
+    for (const element of this) {
+      if (i++ === index) builder.append(value);
+      builder.append(element);
+    }
+    if (index === this._size) builder.append(value);
+    return builder.build();
+  }
+
+  /**
+   * Creates a new list with the element at an index removed
+   *
+   * @param index - Position of the element to remove
+   * @returns A new DoublyLinkedList without the element, or this list if the index is out of range
+   */
+  removeAt(index: number): DoublyLinkedList<T> {
+    if (!Number.isInteger(index) || index < 0 || index >= this._size) {
+      return this;
+    }
+    return this.filter((_, i) => i !== index);
+  }
+
+  /**
+   * Creates a new list of the elements from start up to, but not including,
+   * end. Negative indices count back from the end, as with Array.prototype.slice.
+   *
+   * @param start - Index of the first element (default 0)
+   * @param end - Index after the last element (default size())
+   * @returns A new DoublyLinkedList of the selected elements
+   */
+  slice(start: number = 0, end: number = this._size): DoublyLinkedList<T> {
+    const from = clampIndex(start, this._size);
+    const to = clampIndex(end, this._size);
+
+    if (from === 0 && to === this._size) {
+      return this;
+    }
+
+    const builder = DoublyLinkedList.builder<T>(this.equals);
+    let node = this.head;
+    for (let i = 0; i < to && node !== null; i++, node = node.next) {
+      if (i >= from) builder.append(node.value);
+    }
+    return builder.build();
+  }
+
+  /**
+   * Creates a new list of the first n elements
+   */
+  take(n: number): DoublyLinkedList<T> {
+    return this.slice(0, Math.max(n, 0));
+  }
+
+  /**
+   * Creates a new list without the first n elements
+   */
+  drop(n: number): DoublyLinkedList<T> {
+    return this.slice(Math.max(n, 0));
+  }
+
+  /**
+   * Creates a new list pairing the elements of this list and another by
+   * position. The result is as long as the shorter list.
+   *
+   * @param other - List providing the second element of each pair
+   * @returns A new DoublyLinkedList of [element, otherElement] pairs
+   */
+  zip<U>(other: DoublyLinkedList<U>): DoublyLinkedList<[T, U]> {
+    const builder = DoublyLinkedList.builder<[T, U]>();
+    for (let a = this.head, b = other.head; a !== null && b !== null; a = a.next, b = b.next) {
+      builder.append([a.value, b.value]);
+    }
+    return builder.build();
+  }
+
+  /**
+   * Returns the elements in an array, first to last
+   */
+  toArray(): T[] {
+    return [...this];
+  }
+
   /**
    * Makes the DoublyLinkedList iterable (forward direction)
    */
@@ -528,4 +1157,276 @@ export class DoublyLinkedList<T> {
   toString(): string {
     return [...this].join(" <-> ");
   }
+
+  private findIndex(predicate: (value: T, index: number) => boolean): number {
+    let index = 0;
+    for (let node = this.head; node !== null; node = node.next, index++) {
+      if (predicate(node.value, index)) {
+        return index;
+      }
+    }
+    return -1;
+  }
+}
+
+/**
+ * An entry stored in an LRUCache node
+ * @internal
+ */
+interface CacheEntry<K, V> {
+  readonly key: K;
+  value: V;
+  /** Time after which the entry is expired, Infinity when it never expires */
+  expiresAt: number;
+}
+
+/**
+ * Options for an LRUCache
+ */
+export interface LRUCacheOptions<K, V> {
+  /** Default lifetime of an entry in milliseconds. Entries never expire when omitted */
+  ttl?: number;
+  /** Called after an entry is evicted to make room, or dropped because it expired */
+  onEvict?: (key: K, value: V, reason: "capacity" | "expired") => void;
+  /** Clock used for expiry, in milliseconds. Defaults to Date.now */
+  now?: () => number;
+}
+
+/**
+ * A least-recently-used cache holding at most a fixed number of entries.
+ * Unlike the lists in this module the cache is mutable: a hash map finds
+ * an entry's node in O(1), and a doubly linked list of those nodes, most
+ * recently used first, lets get and set move it to the front and evict
+ * from the back in O(1).
+ *
+ * Expired entries are dropped lazily, when they are next looked up or
+ * when prune() is called.
+ *
+ * @template K The type of keys in the cache
+ * @template V The type of values in the cache
+ * @example
+ * ```typescript
+ * const cache = new LRUCache<string, number>(2, {
+ *   onEvict: (key, value, reason) => console.log(`evicted ${key} (${reason})`),
+ * });
+ * cache.set("a", 1).set("b", 2);
+ * cache.get("a"); // "a" is now the most recently used
+ * cache.set("c", 3); // logs "evicted b (capacity)"
+ * cache.set("session", 4, 60_000); // expires after a minute
+ * ```
+ */
+export class LRUCache<K, V> {
+  private readonly entries: Map<K, DoubleNode<CacheEntry<K, V>>>;
+  private readonly capacity: number;
+  private readonly options: LRUCacheOptions<K, V>;
+  /** Most recently used entry */
+  private head: DoubleNode<CacheEntry<K, V>> | null;
+  /** Least recently used entry, the next to be evicted */
+  private tail: DoubleNode<CacheEntry<K, V>> | null;
+
+  /**
+   * Creates a new empty LRUCache
+   *
+   * @param capacity - Maximum number of entries the cache can hold
+   * @param options - Optional default TTL, eviction callback and clock
+   * @throws {Error} If capacity is not a positive integer or the TTL is not positive
+   */
+  constructor(capacity: number, options: LRUCacheOptions<K, V> = {}) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error("Capacity must be a positive integer");
+    }
+    LRUCache.validateTtl(options.ttl);
+    this.entries = new Map();
+    this.capacity = capacity;
+    this.options = options;
+    this.head = null;
+    this.tail = null;
+  }
+
+  /**
+   * Returns the value stored for a key and marks the entry as most recently used
+   *
+   * @param key - Key to look up
+   * @returns The value or undefined if the key is absent or expired
+   */
+  get(key: K): V | undefined {
+    const node = this.lookup(key);
+    if (!node) {
+      return undefined;
+    }
+    this.unlink(node);
+    this.linkFront(node);
+    return node.value.value;
+  }
+
+  /**
+   * Returns the value stored for a key without changing its recency
+   *
+   * @param key - Key to look up
+   * @returns The value or undefined if the key is absent or expired
+   */
+  peek(key: K): V | undefined {
+    return this.lookup(key)?.value.value;
+  }
+
+  /**
+   * Checks if a key is stored and not expired, without changing its recency
+   */
+  has(key: K): boolean {
+    return this.lookup(key) !== null;
+  }
+
+  /**
+   * Stores a value as the most recently used entry, evicting the least
+   * recently used entry if the cache is full
+   *
+   * @param key - Key to set
+   * @param value - Value to store
+   * @param ttl - Lifetime of this entry in milliseconds, Infinity for none (default: the cache's ttl option)
+   * @returns This cache, for chaining
+   * @throws {Error} If ttl is not positive
+   */
+  set(key: K, value: V, ttl: number | undefined = this.options.ttl): this {
+    LRUCache.validateTtl(ttl);
+    const expiresAt = ttl === undefined ? Infinity : this.now() + ttl;
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      existing.value.value = value;
+      existing.value.expiresAt = expiresAt;
+      this.unlink(existing);
+      this.linkFront(existing);
+      return this;
+    }
+
+    if (this.entries.size >= this.capacity) {
+      this.evict(this.tail!, "capacity");
+    }
+    const node: DoubleNode<CacheEntry<K, V>> = { value: { key, value, expiresAt }, prev: null, next: null };
+    this.entries.set(key, node);
+    this.linkFront(node);
+    return this;
+  }
+
+  /**
+   * Removes an entry. The eviction callback is not called.
+   *
+   * @param key - Key to remove
+   * @returns true if the key was stored
+   */
+  delete(key: K): boolean {
+    const node = this.entries.get(key);
+    if (!node) {
+      return false;
+    }
+    this.entries.delete(key);
+    this.unlink(node);
+    return true;
+  }
+
+  /**
+   * Removes every entry. The eviction callback is not called.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.head = null;
+    this.tail = null;
+  }
+
+  /**
+   * Drops every expired entry, calling the eviction callback for each
+   *
+   * @returns The number of entries dropped
+   */
+  prune(): number {
+    const now = this.now();
+    let dropped = 0;
+    for (let node = this.tail; node !== null; ) {
+      const prev = node.prev;
+      if (node.value.expiresAt <= now) {
+        this.evict(node, "expired");
+        dropped++;
+      }
+      node = prev;
+    }
+    return dropped;
+  }
+
+  /**
+   * Returns the number of entries, including expired entries not yet dropped
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Iterates over the unexpired [key, value] entries, most recently used
+   * first, without changing their recency
+   */
+  *[Symbol.iterator](): Iterator<[K, V]> {
+    const now = this.now();
+    for (let node = this.head; node !== null; node = node.next) {
+      if (node.value.expiresAt > now) {
+        yield [node.value.key, node.value.value];
+      }
+    }
+  }
+
+  private static validateTtl(ttl: number | undefined): void {
+    if (ttl !== undefined && !(ttl > 0)) {
+      throw new Error("TTL must be a positive number");
+    }
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+
+  /**
+   * Finds the node for a key, dropping it if it has expired
+   * @internal
+   */
+  private lookup(key: K): DoubleNode<CacheEntry<K, V>> | null {
+    const node = this.entries.get(key);
+    if (!node) {
+      return null;
+    }
+    if (node.value.expiresAt <= this.now()) {
+      this.evict(node, "expired");
+      return null;
+    }
+    return node;
+  }
+
+  private evict(node: DoubleNode<CacheEntry<K, V>>, reason: "capacity" | "expired"): void {
+    this.entries.delete(node.value.key);
+    this.unlink(node);
+    this.options.onEvict?.(node.value.key, node.value.value, reason);
+  }
+
+  private linkFront(node: DoubleNode<CacheEntry<K, V>>): void {
+    node.prev = null;
+    node.next = this.head;
+    if (this.head) {
+      this.head.prev = node;
+    } else {
+      this.tail = node;
+    }
+    this.head = node;
+  }
+
+  private unlink(node: DoubleNode<CacheEntry<K, V>>): void {
+    if (node.prev) {
+      node.prev.next = node.next;
+    } else {
+      this.head = node.next;
+    }
+    if (node.next) {
+      node.next.prev = node.prev;
+    } else {
+      this.tail = node.prev;
+    }
+    node.prev = null;
+    node.next = null;
+  }
 }
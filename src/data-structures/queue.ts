@@ -1,9 +1,112 @@
+import { CompareFn, Comparators } from "../utils/comparators";
+
 /**
- * Type definition for comparison function used in PriorityQueue
- * Returns negative if a < b, positive if a > b, and 0 if equal
- * @template T The type of elements in the queue
+ * A memoized suspension: the computation runs on the first force, and every
+ * later force (from any version of a Deque sharing it) returns the result
+ * @internal
+ * @template T The type of the computed value
+ */
+class Lazy<T> {
+  private thunk: (() => T) | null;
+  private value: T | undefined;
+
+  constructor(thunk: (() => T) | null, value?: T) {
+    this.thunk = thunk;
+    this.value = value;
+  }
+
+  force(): T {
+    if (this.thunk !== null) {
+      this.value = this.thunk();
+      this.thunk = null;
+    }
+    return this.value as T;
+  }
+}
+
+/**
+ * A cell of a lazy stream
+ * @internal
+ * @template T The type of value stored in the cell
+ */
+interface StreamCell<T> {
+  readonly value: T;
+  readonly next: Stream<T>;
+}
+
+/**
+ * A persistent lazy list, used as a stack by Deque; null marks the end
+ * @internal
  */
-type CompareFn<T> = (a: T, b: T) => number;
+type Stream<T> = Lazy<StreamCell<T> | null>;
+
+/** @internal */
+const EMPTY_STREAM: Stream<never> = new Lazy<null>(null, null);
+
+/**
+ * Maximum size ratio between the two stacks of a Deque before rebalancing
+ * @internal
+ */
+const BALANCE_FACTOR = 3;
+
+/** @internal */
+function cons<T>(value: T, next: Stream<T>): Stream<T> {
+  return new Lazy<StreamCell<T> | null>(null, { value, next });
+}
+
+/**
+ * The first n values of a stream, computed one cell at a time as they are forced
+ * @internal
+ */
+function take<T>(n: number, stream: Stream<T>): Stream<T> {
+  if (n === 0) return EMPTY_STREAM;
+  return new Lazy(() => {
+    const cell = stream.force();
+    return cell && { value: cell.value, next: take(n - 1, cell.next) };
+  });
+}
+
+/**
+ * The values of first followed by those of second, computed one cell at a time
+ * @internal
+ */
+function append<T>(first: Stream<T>, second: Stream<T>): Stream<T> {
+  return new Lazy(() => {
+    const cell = first.force();
+    return cell ? { value: cell.value, next: append(cell.next, second) } : second.force();
+  });
+}
+
+/**
+ * The values of a stream after the first n, in reverse order. The whole
+ * result is computed at once, but only when first forced.
+ * @internal
+ */
+function reverseDrop<T>(n: number, stream: Stream<T>): Stream<T> {
+  return new Lazy(() => {
+    let cell = stream.force();
+    for (let i = 0; i < n && cell !== null; i++) {
+      cell = cell.next.force();
+    }
+    let reversed: Stream<T> = EMPTY_STREAM;
+    for (; cell !== null; cell = cell.next.force()) {
+      reversed = cons(cell.value, reversed);
+    }
+    return reversed.force();
+  });
+}
+
+/**
+ * Collects the values of a stream from head to tail
+ * @internal
+ */
+function toArray<T>(stream: Stream<T>): T[] {
+  const values: T[] = [];
+  for (let cell = stream.force(); cell !== null; cell = cell.next.force()) {
+    values.push(cell.value);
+  }
+  return values;
+}
 
 /**
  * An immutable Priority Queue implementation using a binary heap.
@@ -23,6 +126,10 @@ type CompareFn<T> = (a: T, b: T) => number;
 /**
  * A double-ended queue (deque) implementation that allows adding and removing
  * elements from both ends efficiently.
+ * Backed by a pair of persistent lazy stacks (Okasaki's banker's deque), so
+ * every operation shares structure with the previous version instead of
+ * copying it. Rebalancing the stacks is suspended and memoized, which keeps
+ * operations O(1) amortized even when an old version is used again and again.
  *
  * @template T The type of elements in the deque
  * @example
@@ -32,13 +139,21 @@ type CompareFn<T> = (a: T, b: T) => number;
  * ```
  */
 export class Deque<T> {
-  private readonly elements: T[];
+  /** @internal Front stack, head is the front element */
+  private front: Stream<T>;
+  /** @internal Back stack, head is the back element */
+  private back: Stream<T>;
+  private frontSize: number;
+  private backSize: number;
 
   /**
    * Creates a new empty Deque
    */
   constructor() {
-    this.elements = [];
+    this.front = EMPTY_STREAM;
+    this.back = EMPTY_STREAM;
+    this.frontSize = 0;
+    this.backSize = 0;
   }
 
   /**
@@ -48,36 +163,42 @@ export class Deque<T> {
    * @returns A new Deque containing all elements
    */
   static from<T>(elements: T[]): Deque<T> {
-    const deque = new Deque<T>();
     return new Deque<T>().pushBack(...elements);
   }
 
   /**
    * Adds elements to the front of the deque
+   * Time Complexity: O(k) amortized for k items
    *
    * @param items - Elements to add to the front
    * @returns A new Deque with the elements added
    */
   pushFront(...items: T[]): Deque<T> {
-    const newDeque = new Deque<T>();
-    newDeque.elements.push(...items, ...this.elements);
-    return newDeque;
+    let front = this.front;
+    for (let i = items.length - 1; i >= 0; i--) {
+      front = cons(items[i], front);
+    }
+    return Deque.balanced(front, this.frontSize + items.length, this.back, this.backSize);
   }
 
   /**
    * Adds elements to the back of the deque
+   * Time Complexity: O(k) amortized for k items
    *
    * @param items - Elements to add to the back
    * @returns A new Deque with the elements added
    */
   pushBack(...items: T[]): Deque<T> {
-    const newDeque = new Deque<T>();
-    newDeque.elements.push(...this.elements, ...items);
-    return newDeque;
+    let back = this.back;
+    for (const item of items) {
+      back = cons(item, back);
+    }
+    return Deque.balanced(this.front, this.frontSize, back, this.backSize + items.length);
   }
 
   /**
    * Removes and returns the front element
+   * Time Complexity: O(1) amortized
    *
    * @returns An object containing the removed element and the new deque
    */
@@ -85,14 +206,18 @@ export class Deque<T> {
     if (this.isEmpty()) {
       return { element: undefined, deque: new Deque<T>() };
     }
-    const [element, ...rest] = this.elements;
-    const newDeque = new Deque<T>();
-    newDeque.elements.push(...rest);
-    return { element, deque: newDeque };
+    const front = this.front.force();
+    // The balance invariant guarantees a lone element lives in the back stack
+    if (front === null) {
+      return { element: this.back.force()!.value, deque: new Deque<T>() };
+    }
+    const deque = Deque.balanced(front.next, this.frontSize - 1, this.back, this.backSize);
+    return { element: front.value, deque };
   }
 
   /**
    * Removes and returns the back element
+   * Time Complexity: O(1) amortized
    *
    * @returns An object containing the removed element and the new deque
    */
@@ -100,45 +225,86 @@ export class Deque<T> {
     if (this.isEmpty()) {
       return { element: undefined, deque: new Deque<T>() };
     }
-    const element = this.elements[this.elements.length - 1];
-    const newDeque = new Deque<T>();
-    newDeque.elements.push(...this.elements.slice(0, -1));
-    return { element, deque: newDeque };
+    const back = this.back.force();
+    if (back === null) {
+      return { element: this.front.force()!.value, deque: new Deque<T>() };
+    }
+    const deque = Deque.balanced(this.front, this.frontSize, back.next, this.backSize - 1);
+    return { element: back.value, deque };
   }
 
   /**
    * Returns the front element without removing it
    */
   peekFront(): T | undefined {
-    return this.elements[0];
+    return (this.front.force() ?? this.back.force())?.value;
   }
 
   /**
    * Returns the back element without removing it
    */
   peekBack(): T | undefined {
-    return this.elements[this.elements.length - 1];
+    return (this.back.force() ?? this.front.force())?.value;
   }
 
   /**
    * Returns true if the deque is empty
    */
   isEmpty(): boolean {
-    return this.elements.length === 0;
+    return this.size() === 0;
   }
 
   /**
    * Returns the number of elements in the deque
    */
   size(): number {
-    return this.elements.length;
+    return this.frontSize + this.backSize;
   }
 
   /**
    * Makes the Deque iterable, yielding elements from front to back
    */
   *[Symbol.iterator](): Iterator<T> {
-    yield* this.elements;
+    for (let cell = this.front.force(); cell !== null; cell = cell.next.force()) {
+      yield cell.value;
+    }
+    yield* toArray(this.back).reverse();
+  }
+
+  /**
+   * Builds a deque from its two stacks, rebalancing them when one grows
+   * more than BALANCE_FACTOR times larger than the other. The larger stack
+   * keeps half the elements and the rest are moved, reversed, to the end of
+   * the smaller one. That work is only suspended here: it is done a cell at
+   * a time as elements are popped (the reversal all at once, but not before
+   * the smaller stack's own elements run out), and memoized, so versions
+   * sharing a rebalance share its cost and every operation is O(1) amortized.
+   *
+   * @internal
+   */
+  private static balanced<T>(front: Stream<T>, frontSize: number, back: Stream<T>, backSize: number): Deque<T> {
+    const total = frontSize + backSize;
+
+    if (frontSize > BALANCE_FACTOR * backSize + 1) {
+      const keep = Math.ceil(total / 2);
+      back = append(back, reverseDrop(keep, front));
+      front = take(keep, front);
+      frontSize = keep;
+      backSize = total - keep;
+    } else if (backSize > BALANCE_FACTOR * frontSize + 1) {
+      const keep = Math.ceil(total / 2);
+      front = append(front, reverseDrop(keep, back));
+      back = take(keep, back);
+      backSize = keep;
+      frontSize = total - keep;
+    }
+
+    const deque = new Deque<T>();
+    deque.front = front;
+    deque.back = back;
+    deque.frontSize = frontSize;
+    deque.backSize = backSize;
+    return deque;
   }
 }
 
@@ -261,7 +427,7 @@ export class MaxPriorityQueue<T> {
    *
    * @param compare - Optional comparison function
    */
-  constructor(compare: CompareFn<T> = (a: any, b: any) => a - b) {
+  constructor(compare: CompareFn<T> = Comparators.natural) {
     this.queue = new PriorityQueue<T>((a, b) => -compare(a, b));
   }
 
@@ -313,7 +479,7 @@ export class PriorityQueue<T> {
   /**
    * Creates a new empty PriorityQueue
    *
-   * @param compare - Optional comparison function. Defaults to (a, b) => a - b for numbers
+   * @param compare - Optional comparison function. Defaults to Comparators.natural
    * @throws {TypeError} If compare is not a function when provided
    *
    * @example
@@ -328,7 +494,7 @@ export class PriorityQueue<T> {
    * const customHeap = new PriorityQueue<Task>((a, b) => a.priority - b.priority);
    * ```
    */
-  constructor(compare: CompareFn<T> = (a: any, b: any) => a - b) {
+  constructor(compare: CompareFn<T> = Comparators.natural) {
     if (compare && typeof compare !== "function") {
       throw new TypeError("Comparison function must be a function");
     }
@@ -1,3 +1,6 @@
+import { CompareFn, Comparators, defaultEquals, EqualsFn } from "../utils/comparators";
+import { BoundedHeap } from "./heap";
+
 /**
  * Basic node interface for binary trees
  * @template T The type of value stored in the node
@@ -6,28 +9,237 @@ interface BinaryNode<T> {
   readonly value: T;
   readonly left: BinaryNode<T> | null;
   readonly right: BinaryNode<T> | null;
+  /** Number of nodes in the subtree rooted at this node */
+  readonly size: number;
+}
+
+/**
+ * Binary node annotated with its subtree height for AVL balancing
+ * @template T The type of value stored in the node
+ */
+interface AVLNode<T> extends BinaryNode<T> {
+  readonly left: AVLNode<T> | null;
+  readonly right: AVLNode<T> | null;
+  readonly height: number;
+}
+
+/**
+ * Binary node annotated with the colour of its incoming link
+ * @template T The type of value stored in the node
+ */
+interface RedBlackNode<T> extends BinaryNode<T> {
+  readonly left: RedBlackNode<T> | null;
+  readonly right: RedBlackNode<T> | null;
+  readonly red: boolean;
+}
+
+/**
+ * Returns the number of nodes in a binary subtree
+ * @internal
+ */
+function sizeOf(node: BinaryNode<unknown> | null): number {
+  return node ? node.size : 0;
+}
+
+/**
+ * Copies a binary node with some fields replaced, recomputing its subtree size
+ * @internal
+ */
+function updateNode<N extends BinaryNode<unknown>>(node: N, changes: Partial<N>): N {
+  const updated = { ...node, ...changes } as { -readonly [P in keyof N]: N[P] };
+  updated.size = 1 + sizeOf(updated.left) + sizeOf(updated.right);
+  return updated;
 }
 
 /**
- * Node interface for general trees (n-ary trees)
+ * Node interface for general trees (n-ary trees). Nodes are shared between
+ * tree versions and must not be mutated.
  * @template T The type of value stored in the node
  */
-interface TreeNode<T> {
+export interface TreeNode<T> {
   readonly value: T;
-  readonly children: TreeNode<T>[];
+  readonly children: readonly TreeNode<T>[];
+}
+
+/**
+ * Addresses a node in a general tree by the child index taken at each level,
+ * starting from the root: [] is the root, [0, 2] its first child's third child.
+ * A path exists only if every index is that of an existing child; updates at
+ * a path that does not exist return the very same tree, unchanged, so callers
+ * can detect them with ===.
+ */
+export type TreePath = readonly number[];
+
+/**
+ * A word stored in a trie, as it was originally inserted
+ * @template V The type of value attached to the word
+ */
+interface TrieEntry<V> {
+  readonly word: string;
+  readonly value: V;
+  readonly weight: number;
 }
 
 /**
  * Node interface for trie (prefix tree)
+ * @template V The type of value attached to each word
+ */
+interface TrieNode<V> {
+  /** The word ending at this node, or null if no word ends here */
+  readonly entry: TrieEntry<V> | null;
+  /** Number of words stored in this subtree */
+  readonly count: number;
+  /** Largest word weight in this subtree, -Infinity when it holds no words */
+  readonly maxWeight: number;
+  readonly children: ReadonlyMap<string, TrieNode<V>>;
+}
+
+/**
+ * Orders trie entries from least to most relevant: by weight, then by the
+ * words as inserted, with earlier words in code unit order more relevant
+ * @internal
+ */
+function byRelevance<V>(a: TrieEntry<V>, b: TrieEntry<V>): number {
+  return a.weight - b.weight || Comparators.natural(b.word, a.word);
+}
+
+/**
+ * Creates a trie node, deriving its cached count and maxWeight from its children
+ * @internal
+ */
+function makeTrieNode<V>(entry: TrieEntry<V> | null, children: ReadonlyMap<string, TrieNode<V>>): TrieNode<V> {
+  let count = entry ? 1 : 0;
+  let maxWeight = entry ? entry.weight : -Infinity;
+  for (const child of children.values()) {
+    count += child.count;
+    maxWeight = Math.max(maxWeight, child.maxWeight);
+  }
+  return { entry, count, maxWeight, children };
+}
+
+/**
+ * Node interface for radix (compressed) trie. Chains of single-child nodes
+ * are collapsed into one edge whose label holds the whole key fragment.
+ */
+interface RadixNode {
+  /** Key fragment on the edge leading to this node; empty for the root */
+  readonly label: string;
+  /**
+   * End offset within the label of each grapheme cluster when keys are split
+   * into graphemes, so that the label is never split inside a cluster; null
+   * when edges are code points
+   */
+  readonly breaks: readonly number[] | null;
+  /** The word ending at this node, as originally inserted, or null if no word ends here */
+  readonly word: string | null;
+  /** Number of words stored in this subtree */
+  readonly count: number;
+  /** Children keyed by the first edge of their label */
+  readonly children: ReadonlyMap<string, RadixNode>;
+}
+
+/**
+ * A key looked up in a radix trie, with the end offset of each grapheme
+ * cluster when keys are split into graphemes, or null for code points
+ * @internal
+ */
+interface RadixKey {
+  readonly text: string;
+  readonly breaks: readonly number[] | null;
+}
+
+/**
+ * Children of every radix trie leaf. Nodes copy it before adding a child.
+ * @internal
+ */
+const NO_RADIX_CHILDREN: ReadonlyMap<string, RadixNode> = Object.freeze(new Map<string, RadixNode>());
+
+/**
+ * Creates a radix trie node, deriving its cached count from its children
+ * @internal
+ */
+function makeRadixNode(
+  label: string,
+  breaks: readonly number[] | null,
+  word: string | null,
+  children: ReadonlyMap<string, RadixNode>
+): RadixNode {
+  let count = word === null ? 0 : 1;
+  for (const child of children.values()) {
+    count += child.count;
+  }
+  return { label, breaks, word, count, children };
+}
+
+/**
+ * Checks whether an offset lies between two edges of a label or key
+ * @internal
+ */
+function isEdgeBoundary(text: string, breaks: readonly number[] | null, offset: number): boolean {
+  if (offset === 0 || offset === text.length) {
+    return true;
+  }
+  if (breaks === null) {
+    // Edges are code points, so only a surrogate pair must stay whole
+    const before = text.charCodeAt(offset - 1);
+    const after = text.charCodeAt(offset);
+    return !(before >= 0xd800 && before <= 0xdbff && after >= 0xdc00 && after <= 0xdfff);
+  }
+  let low = 0;
+  let high = breaks.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    if (breaks[mid] === offset) return true;
+    if (breaks[mid] < offset) low = mid + 1;
+    else high = mid - 1;
+  }
+  return false;
+}
+
+/**
+ * Returns the edge of a key starting at the given offset, which keys the
+ * child reached through it
+ * @internal
  */
-interface TrieNode {
-  isEndOfWord: boolean;
-  children: Map<string, TrieNode>;
+function edgeAt(text: string, breaks: readonly number[] | null, offset: number): string {
+  let end = offset + 1;
+  while (!isEdgeBoundary(text, breaks, end)) {
+    end++;
+  }
+  return text.slice(offset, end);
+}
+
+/**
+ * Returns the breaks of the part of a label between two edge boundaries
+ * @internal
+ */
+function sliceBreaks(breaks: readonly number[] | null, start: number, end: number): readonly number[] | null {
+  return breaks && breaks.filter((offset) => offset > start && offset <= end).map((offset) => offset - start);
+}
+
+/**
+ * Counts the code units of a label that match the key starting at the given
+ * index, up to the last offset that lies between edges of both
+ * @internal
+ */
+function commonLength(node: RadixNode, key: RadixKey, index: number): number {
+  const label = node.label;
+  const max = Math.min(label.length, key.text.length - index);
+  let length = 0;
+  while (length < max && label.charCodeAt(length) === key.text.charCodeAt(index + length)) {
+    length++;
+  }
+  while (!isEdgeBoundary(label, node.breaks, length) || !isEdgeBoundary(key.text, key.breaks, index + length)) {
+    length--;
+  }
+  return length;
 }
 
 /**
  * A functional Binary Search Tree implementation.
  * All operations create new instances, preserving immutability.
+ * The tree is not rebalanced; use AVLTree or RedBlackTree when insertion
+ * order may be sorted or adversarial.
  *
  * @template T The type of elements in the tree
  * @example
@@ -38,15 +250,49 @@ interface TrieNode {
  * ```
  */
 export class BinarySearchTree<T> {
-  private root: BinaryNode<T> | null;
-  private _size: number;
+  protected root: BinaryNode<T> | null;
+  /** @internal Comparison function */
+  protected readonly compare: CompareFn<T>;
 
   /**
    * Creates a new empty Binary Search Tree
+   *
+   * @param compare - Optional comparison function. Defaults to Comparators.natural
+   * @throws {TypeError} If compare is not a function when provided
+   *
+   * @example
+   * ```typescript
+   * interface Order {
+   *   timestamp: number;
+   *   id: string;
+   * }
+   *
+   * const orders = new BinarySearchTree<Order>(
+   *   (a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id)
+   * );
+   * ```
    */
-  constructor() {
+  constructor(compare: CompareFn<T> = Comparators.natural) {
+    if (typeof compare !== "function") {
+      throw new TypeError("Comparison function must be a function");
+    }
     this.root = null;
-    this._size = 0;
+    this.compare = compare;
+  }
+
+  /**
+   * Creates a new BinarySearchTree from an array of elements
+   *
+   * @param elements - Array of elements to insert
+   * @param compare - Optional comparison function
+   * @returns A new BinarySearchTree containing all elements
+   * @throws {TypeError} If elements is not an array
+   */
+  static from<T>(elements: T[], compare?: CompareFn<T>): BinarySearchTree<T> {
+    if (!Array.isArray(elements)) {
+      throw new TypeError("Elements must be an array");
+    }
+    return elements.reduce((tree, element) => tree.insert(element), new BinarySearchTree<T>(compare));
   }
 
   /**
@@ -56,9 +302,8 @@ export class BinarySearchTree<T> {
    * @returns A new BST with the element inserted
    */
   insert(value: T): BinarySearchTree<T> {
-    const tree = new BinarySearchTree<T>();
+    const tree = this.create();
     tree.root = this.insertNode(this.root, value);
-    tree._size = this._size + 1;
     return tree;
   }
 
@@ -69,9 +314,11 @@ export class BinarySearchTree<T> {
    * @returns A new BST with the element removed
    */
   remove(value: T): BinarySearchTree<T> {
-    const tree = new BinarySearchTree<T>();
+    if (!this.contains(value)) {
+      return this;
+    }
+    const tree = this.create();
     tree.root = this.removeNode(this.root, value);
-    tree._size = this.calculateSize(tree.root);
     return tree;
   }
 
@@ -86,122 +333,1728 @@ export class BinarySearchTree<T> {
    * Returns the size of the tree
    */
   size(): number {
-    return this._size;
+    return sizeOf(this.root);
   }
 
   /**
-   * Makes the tree iterable (inorder traversal)
+   * Returns the smallest element in the tree
+   *
+   * @returns The smallest element or undefined if the tree is empty
    */
-  *[Symbol.iterator](): Iterator<T> {
-    yield* this.inorderTraversal(this.root);
+  min(): T | undefined {
+    return this.root ? this.findMin(this.root).value : undefined;
+  }
+
+  /**
+   * Returns the largest element in the tree
+   *
+   * @returns The largest element or undefined if the tree is empty
+   */
+  max(): T | undefined {
+    return this.root ? this.findMax(this.root).value : undefined;
+  }
+
+  /**
+   * Returns the largest element less than or equal to the given value
+   *
+   * @param value - Value to search for
+   * @returns The matching element or undefined if none exists
+   */
+  floor(value: T): T | undefined {
+    return this.findBound(value, true, true);
+  }
+
+  /**
+   * Returns the smallest element greater than or equal to the given value
+   *
+   * @param value - Value to search for
+   * @returns The matching element or undefined if none exists
+   */
+  ceiling(value: T): T | undefined {
+    return this.findBound(value, false, true);
+  }
+
+  /**
+   * Returns the largest element strictly less than the given value
+   *
+   * @param value - Value to search for
+   * @returns The matching element or undefined if none exists
+   */
+  lower(value: T): T | undefined {
+    return this.findBound(value, true, false);
+  }
+
+  /**
+   * Returns the smallest element strictly greater than the given value
+   *
+   * @param value - Value to search for
+   * @returns The matching element or undefined if none exists
+   */
+  higher(value: T): T | undefined {
+    return this.findBound(value, false, false);
+  }
+
+  /**
+   * Returns the element at the given position in sorted order
+   * Time Complexity: O(log n) for balanced trees
+   *
+   * @param k - Zero-based position, so select(0) is the smallest element
+   * @returns The k-th smallest element or undefined if k is out of range
+   * @example
+   * ```typescript
+   * const bst = BinarySearchTree.from([50, 10, 30]);
+   * console.log(bst.select(1)); // 30
+   * ```
+   */
+  select(k: number): T | undefined {
+    if (!Number.isInteger(k) || k < 0 || k >= this.size()) {
+      return undefined;
+    }
+
+    let node = this.root;
+    while (node) {
+      const leftSize = sizeOf(node.left);
+      if (k < leftSize) {
+        node = node.left;
+      } else if (k === leftSize) {
+        return node.value;
+      } else {
+        k -= leftSize + 1;
+        node = node.right;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the number of elements strictly less than the given value
+   * Time Complexity: O(log n) for balanced trees
+   *
+   * @param value - Value to rank
+   * @returns The count of smaller elements, which is also the position value would be inserted at
+   */
+  rank(value: T): number {
+    return this.countBelow(value, false);
+  }
+
+  /**
+   * Counts the elements between lo and hi, both inclusive
+   * Time Complexity: O(log n) for balanced trees
+   *
+   * @param lo - Lower bound
+   * @param hi - Upper bound
+   * @returns The number of elements in [lo, hi]
+   */
+  countInRange(lo: T, hi: T): number {
+    if (this.compare(lo, hi) > 0) {
+      return 0;
+    }
+    return this.countBelow(hi, true) - this.countBelow(lo, false);
+  }
+
+  /**
+   * Iterates in order over the elements between lo and hi, both inclusive,
+   * skipping subtrees outside the range
+   * Time Complexity: O(log n + k) for balanced trees, where k is the number of results
+   *
+   * @param lo - Lower bound
+   * @param hi - Upper bound
+   */
+  *rangeIterator(lo: T, hi: T): IterableIterator<T> {
+    yield* this.rangeTraversal(this.root, lo, hi);
+  }
+
+  /**
+   * Returns the successor of a value: the smallest element strictly greater than it
+   *
+   * @param value - Value to search from; it does not need to be in the tree
+   * @returns The successor or undefined if none exists
+   */
+  successor(value: T): T | undefined {
+    return this.higher(value);
+  }
+
+  /**
+   * Returns the predecessor of a value: the largest element strictly less than it
+   *
+   * @param value - Value to search from; it does not need to be in the tree
+   * @returns The predecessor or undefined if none exists
+   */
+  predecessor(value: T): T | undefined {
+    return this.lower(value);
+  }
+
+  /**
+   * Returns the height of the tree, counted in levels
+   *
+   * @returns The number of nodes on the longest root-to-leaf path, or 0 if empty
+   */
+  height(): number {
+    let height = 0;
+    for (const { depth } of this.levelOrderWithDepth()) {
+      height = depth + 1;
+    }
+    return height;
+  }
+
+  /**
+   * Returns the depth of the node holding a value
+   *
+   * @param value - Value to look up
+   * @returns The number of edges from the root to the value (root is 0), or -1 if absent
+   */
+  depth(value: T): number {
+    let depth = 0;
+    let node = this.root;
+
+    while (node) {
+      const comparison = this.compare(value, node.value);
+      if (comparison === 0) return depth;
+      node = comparison < 0 ? node.left : node.right;
+      depth++;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Lazily traverses the tree in order (left, node, right), yielding ascending values
+   */
+  *inorder(): IterableIterator<T> {
+    const stack: BinaryNode<T>[] = [];
+    let node = this.root;
+
+    while (node || stack.length > 0) {
+      while (node) {
+        stack.push(node);
+        node = node.left;
+      }
+      node = stack.pop()!;
+      yield node.value;
+      node = node.right;
+    }
+  }
+
+  /**
+   * Lazily traverses the tree in reverse order (right, node, left), yielding descending values
+   */
+  *reverseInorder(): IterableIterator<T> {
+    const stack: BinaryNode<T>[] = [];
+    let node = this.root;
+
+    while (node || stack.length > 0) {
+      while (node) {
+        stack.push(node);
+        node = node.right;
+      }
+      node = stack.pop()!;
+      yield node.value;
+      node = node.left;
+    }
   }
 
-  private *inorderTraversal(node: BinaryNode<T> | null): Generator<T> {
-    if (node) {
-      yield* this.inorderTraversal(node.left);
+  /**
+   * Lazily traverses the tree in preorder (node, left, right)
+   */
+  *preorder(): IterableIterator<T> {
+    const stack = this.root ? [this.root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
       yield node.value;
-      yield* this.inorderTraversal(node.right);
+      if (node.right) stack.push(node.right);
+      if (node.left) stack.push(node.left);
+    }
+  }
+
+  /**
+   * Lazily traverses the tree in postorder (left, right, node)
+   */
+  *postorder(): IterableIterator<T> {
+    const stack: BinaryNode<T>[] = [];
+    let node = this.root;
+    let lastVisited: BinaryNode<T> | null = null;
+
+    while (node || stack.length > 0) {
+      if (node) {
+        stack.push(node);
+        node = node.left;
+        continue;
+      }
+
+      const top = stack[stack.length - 1];
+      if (top.right && top.right !== lastVisited) {
+        node = top.right;
+      } else {
+        yield top.value;
+        lastVisited = stack.pop()!;
+      }
+    }
+  }
+
+  /**
+   * Lazily traverses the tree breadth-first, level by level from the root
+   */
+  *levelOrder(): IterableIterator<T> {
+    for (const { value } of this.levelOrderWithDepth()) {
+      yield value;
+    }
+  }
+
+  /**
+   * Lazily traverses the tree breadth-first, yielding each value with its depth
+   * (the root has depth 0)
+   */
+  *levelOrderWithDepth(): IterableIterator<{ value: T; depth: number }> {
+    const queue: [BinaryNode<T>, number][] = this.root ? [[this.root, 0]] : [];
+
+    for (let i = 0; i < queue.length; i++) {
+      const [node, depth] = queue[i];
+      yield { value: node.value, depth };
+      if (node.left) queue.push([node.left, depth + 1]);
+      if (node.right) queue.push([node.right, depth + 1]);
     }
   }
 
-  private insertNode(node: BinaryNode<T> | null, value: T): BinaryNode<T> {
+  /**
+   * Makes the tree iterable (inorder traversal)
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    yield* this.inorder();
+  }
+
+  /**
+   * Creates an empty tree of the same kind
+   * @internal
+   */
+  protected create(): BinarySearchTree<T> {
+    return new BinarySearchTree<T>(this.compare);
+  }
+
+  private *rangeTraversal(node: BinaryNode<T> | null, lo: T, hi: T): Generator<T> {
+    if (!node) return;
+
+    const aboveLo = this.compare(node.value, lo) >= 0;
+    const belowHi = this.compare(node.value, hi) <= 0;
+    if (aboveLo) yield* this.rangeTraversal(node.left, lo, hi);
+    if (aboveLo && belowHi) yield node.value;
+    if (belowHi) yield* this.rangeTraversal(node.right, lo, hi);
+  }
+
+  protected insertNode(node: BinaryNode<T> | null, value: T): BinaryNode<T> {
     if (!node) {
-      return { value, left: null, right: null };
+      return { value, left: null, right: null, size: 1 };
     }
 
-    if ((value < node.value) as any) {
-      return { ...node, left: this.insertNode(node.left, value) };
+    if (this.compare(value, node.value) < 0) {
+      return updateNode(node, { left: this.insertNode(node.left, value) });
     } else {
-      return { ...node, right: this.insertNode(node.right, value) };
+      return updateNode(node, { right: this.insertNode(node.right, value) });
+    }
+  }
+
+  protected removeNode(node: BinaryNode<T> | null, value: T): BinaryNode<T> | null {
+    if (!node) return null;
+
+    const comparison = this.compare(value, node.value);
+    if (comparison < 0) {
+      return updateNode(node, { left: this.removeNode(node.left, value) });
+    } else if (comparison > 0) {
+      return updateNode(node, { right: this.removeNode(node.right, value) });
+    }
+
+    // Node to delete found
+    if (!node.left) return node.right;
+    if (!node.right) return node.left;
+
+    // Node has two children
+    const minNode = this.findMin(node.right);
+    return updateNode(node, { value: minNode.value, right: this.removeNode(node.right, minNode.value) });
+  }
+
+  private findNode(node: BinaryNode<T> | null, value: T): BinaryNode<T> | null {
+    if (!node) return null;
+    const comparison = this.compare(value, node.value);
+    if (comparison === 0) return node;
+    return comparison < 0 ? this.findNode(node.left, value) : this.findNode(node.right, value);
+  }
+
+  protected findMin(node: BinaryNode<T>): BinaryNode<T> {
+    let current = node;
+    while (current.left) {
+      current = current.left;
+    }
+    return current;
+  }
+
+  private findMax(node: BinaryNode<T>): BinaryNode<T> {
+    let current = node;
+    while (current.right) {
+      current = current.right;
+    }
+    return current;
+  }
+
+  /**
+   * Counts elements less than (or equal to) a value using subtree sizes
+   * @internal
+   */
+  private countBelow(value: T, inclusive: boolean): number {
+    let count = 0;
+    let node = this.root;
+
+    while (node) {
+      const comparison = this.compare(value, node.value);
+      if (comparison < 0 || (comparison === 0 && !inclusive)) {
+        node = node.left;
+      } else {
+        count += sizeOf(node.left) + 1;
+        node = node.right;
+      }
     }
+
+    return count;
+  }
+
+  /**
+   * Finds the closest element below (or above) a value in O(log n) for
+   * balanced trees, optionally accepting an equal element
+   * @internal
+   */
+  private findBound(value: T, below: boolean, inclusive: boolean): T | undefined {
+    let result: T | undefined;
+    let node = this.root;
+
+    while (node) {
+      const comparison = this.compare(value, node.value);
+      if (comparison === 0 && inclusive) {
+        return node.value;
+      }
+      if (below ? comparison > 0 : comparison >= 0) {
+        if (below) result = node.value;
+        node = node.right;
+      } else {
+        if (!below) result = node.value;
+        node = node.left;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * A functional AVL tree: a Binary Search Tree that rebalances itself on
+ * every insertion and removal, guaranteeing O(log n) insert/remove/contains.
+ * Only the nodes along the modified path are copied.
+ *
+ * @template T The type of elements in the tree
+ * @example
+ * ```typescript
+ * const avl = new AVLTree<number>();
+ * const avl2 = avl.insert(1).insert(2).insert(3); // rebalanced around 2
+ * ```
+ */
+export class AVLTree<T> extends BinarySearchTree<T> {
+  /**
+   * Creates a new AVLTree from an array of elements
+   *
+   * @param elements - Array of elements to insert
+   * @param compare - Optional comparison function
+   * @returns A new AVLTree containing all elements
+   * @throws {TypeError} If elements is not an array
+   */
+  static from<T>(elements: T[], compare?: CompareFn<T>): AVLTree<T> {
+    if (!Array.isArray(elements)) {
+      throw new TypeError("Elements must be an array");
+    }
+    return elements.reduce((tree, element) => tree.insert(element), new AVLTree<T>(compare));
+  }
+
+  /**
+   * Creates a new tree with an element inserted
+   *
+   * @param value - Element to insert
+   * @returns A new AVLTree with the element inserted
+   */
+  insert(value: T): AVLTree<T> {
+    return super.insert(value) as AVLTree<T>;
+  }
+
+  /**
+   * Creates a new tree with an element removed
+   *
+   * @param value - Element to remove
+   * @returns A new AVLTree with the element removed
+   */
+  remove(value: T): AVLTree<T> {
+    return super.remove(value) as AVLTree<T>;
+  }
+
+  /**
+   * Returns the height of the tree, counted in levels. O(1) as AVL nodes track their height.
+   */
+  height(): number {
+    return this.heightOf(this.root as AVLNode<T> | null);
+  }
+
+  /** @internal */
+  protected create(): AVLTree<T> {
+    return new AVLTree<T>(this.compare);
+  }
+
+  /** @internal */
+  protected insertNode(node: AVLNode<T> | null, value: T): AVLNode<T> {
+    if (!node) {
+      return this.makeNode(value, null, null);
+    }
+
+    if (this.compare(value, node.value) < 0) {
+      return this.rebalance(this.makeNode(node.value, this.insertNode(node.left, value), node.right));
+    }
+    return this.rebalance(this.makeNode(node.value, node.left, this.insertNode(node.right, value)));
+  }
+
+  /** @internal */
+  protected removeNode(node: AVLNode<T> | null, value: T): AVLNode<T> | null {
+    if (!node) return null;
+
+    const comparison = this.compare(value, node.value);
+    if (comparison < 0) {
+      return this.rebalance(this.makeNode(node.value, this.removeNode(node.left, value), node.right));
+    } else if (comparison > 0) {
+      return this.rebalance(this.makeNode(node.value, node.left, this.removeNode(node.right, value)));
+    }
+
+    // Node to delete found
+    if (!node.left) return node.right;
+    if (!node.right) return node.left;
+
+    // Node has two children
+    const minNode = this.findMin(node.right);
+    return this.rebalance(this.makeNode(minNode.value, node.left, this.removeNode(node.right, minNode.value)));
+  }
+
+  private heightOf(node: AVLNode<T> | null): number {
+    return node ? node.height : 0;
+  }
+
+  private makeNode(value: T, left: AVLNode<T> | null, right: AVLNode<T> | null): AVLNode<T> {
+    return {
+      value,
+      left,
+      right,
+      size: 1 + sizeOf(left) + sizeOf(right),
+      height: 1 + Math.max(this.heightOf(left), this.heightOf(right)),
+    };
+  }
+
+  private rotateLeft(node: AVLNode<T>): AVLNode<T> {
+    const right = node.right!;
+    return this.makeNode(right.value, this.makeNode(node.value, node.left, right.left), right.right);
+  }
+
+  private rotateRight(node: AVLNode<T>): AVLNode<T> {
+    const left = node.left!;
+    return this.makeNode(left.value, left.left, this.makeNode(node.value, left.right, node.right));
+  }
+
+  private rebalance(node: AVLNode<T>): AVLNode<T> {
+    const balance = this.heightOf(node.left) - this.heightOf(node.right);
+
+    if (balance > 1) {
+      const left = node.left!;
+      if (this.heightOf(left.left) < this.heightOf(left.right)) {
+        node = this.makeNode(node.value, this.rotateLeft(left), node.right);
+      }
+      return this.rotateRight(node);
+    }
+
+    if (balance < -1) {
+      const right = node.right!;
+      if (this.heightOf(right.right) < this.heightOf(right.left)) {
+        node = this.makeNode(node.value, node.left, this.rotateRight(right));
+      }
+      return this.rotateLeft(node);
+    }
+
+    return node;
+  }
+}
+
+/**
+ * A functional left-leaning Red-Black tree: a Binary Search Tree that keeps
+ * itself balanced through node colouring, guaranteeing O(log n)
+ * insert/remove/contains. Only the nodes along the modified path are copied.
+ *
+ * @template T The type of elements in the tree
+ * @example
+ * ```typescript
+ * const rbt = new RedBlackTree<number>();
+ * const rbt2 = rbt.insert(1).insert(2).insert(3);
+ * const rbt3 = rbt2.remove(2);
+ * ```
+ */
+export class RedBlackTree<T> extends BinarySearchTree<T> {
+  /**
+   * Creates a new RedBlackTree from an array of elements
+   *
+   * @param elements - Array of elements to insert
+   * @param compare - Optional comparison function
+   * @returns A new RedBlackTree containing all elements
+   * @throws {TypeError} If elements is not an array
+   */
+  static from<T>(elements: T[], compare?: CompareFn<T>): RedBlackTree<T> {
+    if (!Array.isArray(elements)) {
+      throw new TypeError("Elements must be an array");
+    }
+    return elements.reduce((tree, element) => tree.insert(element), new RedBlackTree<T>(compare));
+  }
+
+  /**
+   * Creates a new tree with an element inserted
+   *
+   * @param value - Element to insert
+   * @returns A new RedBlackTree with the element inserted
+   */
+  insert(value: T): RedBlackTree<T> {
+    const tree = super.insert(value) as RedBlackTree<T>;
+    tree.root = this.withColor(tree.root as RedBlackNode<T>, false);
+    return tree;
+  }
+
+  /**
+   * Creates a new tree with an element removed
+   *
+   * @param value - Element to remove
+   * @returns A new RedBlackTree with the element removed
+   */
+  remove(value: T): RedBlackTree<T> {
+    if (!this.contains(value)) {
+      return this;
+    }
+
+    let root = this.root as RedBlackNode<T>;
+    if (!this.isRed(root.left) && !this.isRed(root.right)) {
+      root = this.withColor(root, true);
+    }
+
+    const tree = this.create();
+    const newRoot = this.removeNode(root, value);
+    tree.root = newRoot && this.withColor(newRoot, false);
+    return tree;
+  }
+
+  /** @internal */
+  protected create(): RedBlackTree<T> {
+    return new RedBlackTree<T>(this.compare);
+  }
+
+  /** @internal */
+  protected insertNode(node: RedBlackNode<T> | null, value: T): RedBlackNode<T> {
+    if (!node) {
+      return { value, left: null, right: null, size: 1, red: true };
+    }
+
+    if (this.compare(value, node.value) < 0) {
+      node = updateNode(node, { left: this.insertNode(node.left, value) });
+    } else {
+      node = updateNode(node, { right: this.insertNode(node.right, value) });
+    }
+    return this.fixUp(node);
+  }
+
+  /**
+   * Removes a value known to be present. Expects the invariant that either
+   * the node or one of its children is red on the way down.
+   * @internal
+   */
+  protected removeNode(node: RedBlackNode<T>, value: T): RedBlackNode<T> | null {
+    if (this.compare(value, node.value) < 0) {
+      if (!this.isRed(node.left) && !this.isRed(node.left!.left)) {
+        node = this.moveRedLeft(node);
+      }
+      return this.fixUp(updateNode(node, { left: this.removeNode(node.left!, value) }));
+    }
+
+    // Rotations move the current node into the right subtree, so continue
+    // there rather than matching an equal value that took its place
+    if (this.isRed(node.left)) {
+      node = this.rotateRight(node);
+      return this.fixUp(updateNode(node, { right: this.removeNode(node.right!, value) }));
+    }
+    if (this.compare(value, node.value) === 0 && !node.right) {
+      return null;
+    }
+    if (!this.isRed(node.right) && !this.isRed(node.right!.left)) {
+      node = this.flipColors(node);
+      if (this.isRed(node.left!.left)) {
+        node = this.flipColors(this.rotateRight(node));
+        return this.fixUp(updateNode(node, { right: this.removeNode(node.right!, value) }));
+      }
+    }
+    if (this.compare(value, node.value) === 0) {
+      const minNode = this.findMin(node.right!);
+      return this.fixUp(updateNode(node, { value: minNode.value, right: this.removeMin(node.right!) }));
+    }
+    return this.fixUp(updateNode(node, { right: this.removeNode(node.right!, value) }));
+  }
+
+  private removeMin(node: RedBlackNode<T>): RedBlackNode<T> | null {
+    if (!node.left) return null;
+
+    if (!this.isRed(node.left) && !this.isRed(node.left.left)) {
+      node = this.moveRedLeft(node);
+    }
+    return this.fixUp(updateNode(node, { left: this.removeMin(node.left!) }));
+  }
+
+  private isRed(node: RedBlackNode<T> | null): boolean {
+    return node !== null && node.red;
+  }
+
+  private withColor(node: RedBlackNode<T>, red: boolean): RedBlackNode<T> {
+    return node.red === red ? node : { ...node, red };
+  }
+
+  private rotateLeft(node: RedBlackNode<T>): RedBlackNode<T> {
+    const right = node.right!;
+    return updateNode(right, { red: node.red, left: updateNode(node, { right: right.left, red: true }) });
+  }
+
+  private rotateRight(node: RedBlackNode<T>): RedBlackNode<T> {
+    const left = node.left!;
+    return updateNode(left, { red: node.red, right: updateNode(node, { left: left.right, red: true }) });
+  }
+
+  private flipColors(node: RedBlackNode<T>): RedBlackNode<T> {
+    return {
+      ...node,
+      red: !node.red,
+      left: node.left && { ...node.left, red: !node.left.red },
+      right: node.right && { ...node.right, red: !node.right.red },
+    };
+  }
+
+  private moveRedLeft(node: RedBlackNode<T>): RedBlackNode<T> {
+    node = this.flipColors(node);
+    if (this.isRed(node.right!.left)) {
+      node = this.rotateLeft(updateNode(node, { right: this.rotateRight(node.right!) }));
+      node = this.flipColors(node);
+    }
+    return node;
+  }
+
+  private fixUp(node: RedBlackNode<T>): RedBlackNode<T> {
+    if (this.isRed(node.right) && !this.isRed(node.left)) {
+      node = this.rotateLeft(node);
+    }
+    if (this.isRed(node.left) && this.isRed(node.left!.left)) {
+      node = this.rotateRight(node);
+    }
+    if (this.isRed(node.left) && this.isRed(node.right)) {
+      node = this.flipColors(node);
+    }
+    return node;
+  }
+}
+
+/**
+ * A functional sorted set backed by a RedBlackTree.
+ * Elements are unique under the comparison function and iterate in order.
+ * All operations create new instances, preserving immutability.
+ *
+ * @template T The type of elements in the set
+ * @example
+ * ```typescript
+ * const set = SortedSet.from([5, 1, 3]);
+ * const set2 = set.add(4).delete(1);
+ * console.log([...set2]); // [3, 4, 5]
+ * console.log(set2.floor(2)); // undefined
+ * ```
+ */
+export class SortedSet<T> {
+  private tree: RedBlackTree<T>;
+
+  /**
+   * Creates a new empty SortedSet
+   *
+   * @param compare - Optional comparison function. Defaults to Comparators.natural
+   * @throws {TypeError} If compare is not a function when provided
+   */
+  constructor(compare: CompareFn<T> = Comparators.natural) {
+    this.tree = new RedBlackTree<T>(compare);
+  }
+
+  /**
+   * Creates a new SortedSet from an array of elements, dropping duplicates
+   *
+   * @param elements - Array of elements to add
+   * @param compare - Optional comparison function
+   * @returns A new SortedSet containing all distinct elements
+   * @throws {TypeError} If elements is not an array
+   */
+  static from<T>(elements: T[], compare?: CompareFn<T>): SortedSet<T> {
+    if (!Array.isArray(elements)) {
+      throw new TypeError("Elements must be an array");
+    }
+    return elements.reduce((set, element) => set.add(element), new SortedSet<T>(compare));
+  }
+
+  /**
+   * Creates a new set with an element added
+   *
+   * @param value - Element to add
+   * @returns A new SortedSet containing the element, or this set if already present
+   */
+  add(value: T): SortedSet<T> {
+    if (this.tree.contains(value)) {
+      return this;
+    }
+    return this.withTree(this.tree.insert(value));
+  }
+
+  /**
+   * Creates a new set with an element removed
+   *
+   * @param value - Element to remove
+   * @returns A new SortedSet without the element, or this set if absent
+   */
+  delete(value: T): SortedSet<T> {
+    const tree = this.tree.remove(value);
+    return tree === this.tree ? this : this.withTree(tree);
+  }
+
+  /**
+   * Checks if an element exists in the set
+   */
+  has(value: T): boolean {
+    return this.tree.contains(value);
+  }
+
+  /**
+   * Returns the largest element less than or equal to the given value
+   */
+  floor(value: T): T | undefined {
+    return this.tree.floor(value);
+  }
+
+  /**
+   * Returns the smallest element greater than or equal to the given value
+   */
+  ceiling(value: T): T | undefined {
+    return this.tree.ceiling(value);
+  }
+
+  /**
+   * Returns the largest element strictly less than the given value
+   */
+  lower(value: T): T | undefined {
+    return this.tree.lower(value);
+  }
+
+  /**
+   * Returns the smallest element strictly greater than the given value
+   */
+  higher(value: T): T | undefined {
+    return this.tree.higher(value);
+  }
+
+  /**
+   * Returns the smallest element, or undefined if the set is empty
+   */
+  first(): T | undefined {
+    return this.tree.min();
+  }
+
+  /**
+   * Returns the largest element, or undefined if the set is empty
+   */
+  last(): T | undefined {
+    return this.tree.max();
+  }
+
+  /**
+   * Returns the number of elements in the set
+   */
+  size(): number {
+    return this.tree.size();
+  }
+
+  /**
+   * Checks if the set is empty
+   */
+  isEmpty(): boolean {
+    return this.tree.size() === 0;
+  }
+
+  /**
+   * Makes the SortedSet iterable in ascending order
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    yield* this.tree;
+  }
+
+  private withTree(tree: RedBlackTree<T>): SortedSet<T> {
+    const set = new SortedSet<T>();
+    set.tree = tree;
+    return set;
+  }
+}
+
+/**
+ * A functional sorted map backed by a RedBlackTree of [key, value] entries.
+ * Keys are unique under the comparison function and iterate in order.
+ * All operations create new instances, preserving immutability.
+ *
+ * @template K The type of keys in the map
+ * @template V The type of values in the map
+ * @example
+ * ```typescript
+ * const map = new SortedMap<number, string>().set(3, "c").set(1, "a");
+ * console.log(map.get(1)); // "a"
+ * console.log(map.ceiling(2)); // [3, "c"]
+ * console.log([...map.keys()]); // [1, 3]
+ * ```
+ */
+export class SortedMap<K, V> {
+  private tree: RedBlackTree<[K, V]>;
+
+  /**
+   * Creates a new empty SortedMap
+   *
+   * @param compare - Optional key comparison function. Defaults to Comparators.natural
+   * @throws {TypeError} If compare is not a function when provided
+   */
+  constructor(compare: CompareFn<K> = Comparators.natural) {
+    if (typeof compare !== "function") {
+      throw new TypeError("Comparison function must be a function");
+    }
+    this.tree = new RedBlackTree<[K, V]>((a, b) => compare(a[0], b[0]));
+  }
+
+  /**
+   * Creates a new SortedMap from an array of entries. Later entries
+   * overwrite earlier ones with the same key.
+   *
+   * @param entries - Array of [key, value] pairs
+   * @param compare - Optional key comparison function
+   * @returns A new SortedMap containing all entries
+   * @throws {TypeError} If entries is not an array
+   */
+  static from<K, V>(entries: [K, V][], compare?: CompareFn<K>): SortedMap<K, V> {
+    if (!Array.isArray(entries)) {
+      throw new TypeError("Entries must be an array");
+    }
+    return entries.reduce((map, [key, value]) => map.set(key, value), new SortedMap<K, V>(compare));
+  }
+
+  /**
+   * Returns the value stored for a key
+   *
+   * @param key - Key to look up
+   * @returns The value or undefined if the key is absent
+   */
+  get(key: K): V | undefined {
+    return this.has(key) ? this.tree.floor(this.probe(key))![1] : undefined;
+  }
+
+  /**
+   * Creates a new map with a key set to a value, replacing any existing value
+   *
+   * @param key - Key to set
+   * @param value - Value to store
+   * @returns A new SortedMap with the entry set
+   */
+  set(key: K, value: V): SortedMap<K, V> {
+    return this.withTree(this.tree.remove(this.probe(key)).insert([key, value]));
+  }
+
+  /**
+   * Creates a new map with a key removed
+   *
+   * @param key - Key to remove
+   * @returns A new SortedMap without the key, or this map if absent
+   */
+  delete(key: K): SortedMap<K, V> {
+    const tree = this.tree.remove(this.probe(key));
+    return tree === this.tree ? this : this.withTree(tree);
+  }
+
+  /**
+   * Checks if a key exists in the map
+   */
+  has(key: K): boolean {
+    return this.tree.contains(this.probe(key));
+  }
+
+  /**
+   * Returns the entry with the largest key less than or equal to the given key
+   */
+  floor(key: K): [K, V] | undefined {
+    return this.tree.floor(this.probe(key));
+  }
+
+  /**
+   * Returns the entry with the smallest key greater than or equal to the given key
+   */
+  ceiling(key: K): [K, V] | undefined {
+    return this.tree.ceiling(this.probe(key));
+  }
+
+  /**
+   * Returns the entry with the largest key strictly less than the given key
+   */
+  lower(key: K): [K, V] | undefined {
+    return this.tree.lower(this.probe(key));
+  }
+
+  /**
+   * Returns the entry with the smallest key strictly greater than the given key
+   */
+  higher(key: K): [K, V] | undefined {
+    return this.tree.higher(this.probe(key));
+  }
+
+  /**
+   * Returns the entry with the smallest key, or undefined if the map is empty
+   */
+  first(): [K, V] | undefined {
+    return this.tree.min();
+  }
+
+  /**
+   * Returns the entry with the largest key, or undefined if the map is empty
+   */
+  last(): [K, V] | undefined {
+    return this.tree.max();
+  }
+
+  /**
+   * Returns the number of entries in the map
+   */
+  size(): number {
+    return this.tree.size();
+  }
+
+  /**
+   * Checks if the map is empty
+   */
+  isEmpty(): boolean {
+    return this.tree.size() === 0;
+  }
+
+  /**
+   * Iterates over the keys in ascending order
+   */
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.tree) {
+      yield key;
+    }
+  }
+
+  /**
+   * Iterates over the values in ascending key order
+   */
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.tree) {
+      yield value;
+    }
+  }
+
+  /**
+   * Iterates over the [key, value] entries in ascending key order
+   */
+  *entries(): IterableIterator<[K, V]> {
+    yield* this.tree;
+  }
+
+  /**
+   * Makes the SortedMap iterable, yielding [key, value] entries in ascending key order
+   */
+  *[Symbol.iterator](): Iterator<[K, V]> {
+    yield* this.tree;
+  }
+
+  /**
+   * Builds a search entry; only the key is read by the entry comparator
+   * @internal
+   */
+  private probe(key: K): [K, V] {
+    return [key, undefined as unknown as V];
+  }
+
+  private withTree(tree: RedBlackTree<[K, V]>): SortedMap<K, V> {
+    const map = new SortedMap<K, V>();
+    map.tree = tree;
+    return map;
+  }
+}
+
+/**
+ * Options controlling how a trie maps words to keys. Words that map to the
+ * same key are treated as the same word; results always return the spelling
+ * that was most recently inserted.
+ */
+export interface TrieOptions {
+  /** Match case exactly. Defaults to false */
+  caseSensitive?: boolean;
+  /** Locale used for case folding, e.g. "tr" so that "I" folds to dotless "ı" */
+  locale?: string;
+  /** Unicode normalization form applied to keys. Defaults to "none" */
+  normalization?: "NFC" | "NFD" | "NFKC" | "NFKD" | "none";
+  /** Strip diacritics so that "café" matches "cafe". Defaults to false */
+  foldAccents?: boolean;
+  /**
+   * Step through keys by grapheme cluster rather than code point, so a base
+   * letter and its combining marks are one trie edge. Defaults to false
+   */
+  graphemes?: boolean;
+}
+
+/**
+ * Options for listing the words stored under a prefix
+ */
+export interface PrefixSearchOptions {
+  /** Maximum number of words to return, a non-negative integer (default: no limit) */
+  limit?: number;
+  /**
+   * Result order: "weight" returns the heaviest words first, breaking ties by
+   * the words as inserted in code unit order; "alphabetical" sorts by the
+   * mapped keys. When omitted, words come in trie order.
+   */
+  sortBy?: "weight" | "alphabetical";
+}
+
+/**
+ * Returns the result limit of prefix search options
+ * @internal
+ */
+function limitOf(options: PrefixSearchOptions): number {
+  if (options.limit === undefined) {
+    return Infinity;
+  }
+  if (!Number.isInteger(options.limit) || options.limit < 0) {
+    throw new Error("Limit must be a non-negative integer");
+  }
+  return options.limit;
+}
+
+/**
+ * Maps a word to the key it is stored under: Unicode normalization, then
+ * locale-aware case folding, then accent stripping, as configured
+ * @internal
+ */
+function normalizeKey(word: string, options: TrieOptions): string {
+  const { caseSensitive = false, locale, normalization = "none", foldAccents = false } = options;
+  let key = normalization === "none" ? word : word.normalize(normalization);
+
+  if (!caseSensitive) {
+    key = key.toLocaleLowerCase(locale);
+  }
+  if (foldAccents) {
+    // Decompose so accents become separate combining marks, then drop them
+    key = key.normalize("NFD").replace(/\p{M}/gu, "");
+    key = normalization === "none" ? key.normalize("NFC") : key.normalize(normalization);
+  }
+  return key;
+}
+
+/**
+ * The part of Intl.Segmenter used to split graphemes, which the ES2020
+ * library declarations this package compiles against do not include
+ * @internal
+ */
+interface GraphemeSegmenterConstructor {
+  new (locale: string | undefined, options: { granularity: "grapheme" }): {
+    segment(input: string): Iterable<{ segment: string }>;
+  };
+}
+
+/**
+ * Creates the function that splits keys into code points, or into grapheme
+ * clusters when the options ask for them
+ * @internal
+ */
+function createSplitter(options: TrieOptions): (key: string) => string[] {
+  if (!options.graphemes) {
+    return (key) => [...key];
+  }
+  const intl: typeof Intl & { Segmenter?: GraphemeSegmenterConstructor } = Intl;
+  if (intl.Segmenter) {
+    const segmenter = new intl.Segmenter(options.locale, { granularity: "grapheme" });
+    return (key) => Array.from(segmenter.segment(key), ({ segment }) => segment);
+  }
+  // Fallback for runtimes without Intl.Segmenter: keep combining marks with their base
+  return (key) => key.match(/\P{M}\p{M}*|\p{M}+/gu) ?? [];
+}
+
+/**
+ * Base class for the functional tries, holding the persistent node structure
+ * and every read-only query. Subclasses decide what each word carries.
+ * Nodes are never mutated: updates copy only the nodes along the word's path
+ * and share every other node with the previous version.
+ *
+ * @template V The type of value attached to each word
+ */
+export abstract class BaseTrie<V> {
+  /** @internal Root node, representing the empty prefix */
+  protected root: TrieNode<V>;
+  /** @internal Key mapping options */
+  protected readonly options: TrieOptions;
+  /** @internal Splits keys into edges */
+  private readonly splitter: (key: string) => string[];
+
+  /**
+   * Creates a new empty trie
+   *
+   * @param options - Optional case, normalization and segmentation settings
+   * @example
+   * ```typescript
+   * const trie = new Trie({ locale: "tr", foldAccents: true, graphemes: true });
+   * ```
+   */
+  constructor(options: TrieOptions = {}) {
+    this.root = makeTrieNode<V>(null, new Map());
+    this.options = options;
+    this.splitter = createSplitter(options);
+  }
+
+  /**
+   * Checks if a word exists in the trie
+   *
+   * @param word - Word to search for
+   * @returns true if the word exists
+   */
+  contains(word: string): boolean {
+    const node = this.findNode(this.normalize(word));
+    return node !== null && node.entry !== null;
+  }
+
+  /**
+   * Checks if any word in the trie starts with the given prefix
+   *
+   * @param prefix - Prefix to search for
+   * @returns true if any word starts with the prefix
+   */
+  containsPrefix(prefix: string): boolean {
+    return this.findNode(this.normalize(prefix)) !== null;
+  }
+
+  /**
+   * Counts the words that start with the given prefix
+   * Time Complexity: O(m) where m is the prefix length
+   *
+   * @param prefix - Prefix to search for
+   * @returns The number of words with the given prefix
+   */
+  countWordsWithPrefix(prefix: string): number {
+    return this.findNode(this.normalize(prefix))?.count ?? 0;
+  }
+
+  /**
+   * Returns the number of words in the trie
+   */
+  size(): number {
+    return this.root.count;
+  }
+
+  /**
+   * Finds the words that start with the given prefix
+   *
+   * @param prefix - Prefix to search for
+   * @param options - Optional result limit and ordering
+   * @returns Array of words with the given prefix
+   * @throws {Error} If limit is not a non-negative integer
+   * @example
+   * ```typescript
+   * const top = trie.findWordsWithPrefix("he", { limit: 3, sortBy: "weight" });
+   * ```
+   */
+  findWordsWithPrefix(prefix: string, options: PrefixSearchOptions = {}): string[] {
+    return this.collect(prefix, options).map(({ word }) => word);
+  }
+
+  /**
+   * Finds the words within a Levenshtein distance of the given word.
+   * Walks the trie computing one row of the edit-distance table per node,
+   * so shared prefixes are scored once and branches that already exceed
+   * maxEdits are abandoned.
+   * Time Complexity: O(m · k) where m is the word length and k the number of nodes visited
+   *
+   * @param word - Word to match, usually user input that may be mistyped
+   * @param maxEdits - Maximum number of insertions, deletions and substitutions
+   * @returns Matching words, closest first and alphabetical within the same distance
+   * @throws {Error} If maxEdits is not a non-negative integer
+   * @example
+   * ```typescript
+   * const trie = new Trie().insert("hello").insert("help").insert("world");
+   * console.log(trie.findWithinDistance("helo", 1)); // ["hello", "help"]
+   * ```
+   */
+  findWithinDistance(word: string, maxEdits: number): string[] {
+    if (!Number.isInteger(maxEdits) || maxEdits < 0) {
+      throw new Error("maxEdits must be a non-negative integer");
+    }
+
+    const target = this.split(this.normalize(word));
+    const firstRow = Array.from({ length: target.length + 1 }, (_, i) => i);
+    const matches: [TrieEntry<V>, number][] = [];
+
+    if (this.root.entry && target.length <= maxEdits) {
+      matches.push([this.root.entry, target.length]);
+    }
+    for (const [char, child] of this.root.children) {
+      this.collectWithinDistance(child, char, target, firstRow, maxEdits, matches);
+    }
+
+    return matches
+      .sort(([a, x], [b, y]) => x - y || Comparators.natural(a.word, b.word))
+      .map(([entry]) => entry.word);
+  }
+
+  /**
+   * Finds the words matching a wildcard pattern, where "?" matches exactly
+   * one character and "*" matches any run of characters, including none.
+   * Characters are compared after the trie's key mapping, so a
+   * case-insensitive trie matches patterns case-insensitively.
+   *
+   * @param pattern - Pattern to match against whole words
+   * @returns Matching words in trie order
+   * @example
+   * ```typescript
+   * const trie = new Trie().insert("cat").insert("cut").insert("cart");
+   * console.log(trie.match("c?t")); // ["cat", "cut"]
+   * console.log(trie.match("c*t")); // ["cat", "cart", "cut"]
+   * ```
+   */
+  match(pattern: string): string[] {
+    const tokens = this.split(this.normalize(pattern)).filter(
+      // Consecutive stars are equivalent to one
+      (token, i, all) => token !== "*" || all[i - 1] !== "*"
+    );
+    const results: TrieEntry<V>[] = [];
+    this.collectMatches(this.root, tokens, 0, new Map(), results);
+    return results.map(({ word }) => word);
+  }
+
+  /**
+   * Builds a new root with a word stored
+   * @internal
+   */
+  protected insertWord(word: string, value: V, weight: number): TrieNode<V> {
+    if (!Number.isFinite(weight)) {
+      throw new TypeError("Weight must be a finite number");
+    }
+    return this.insertNode(this.root, this.split(this.normalize(word)), 0, { word, value, weight });
+  }
+
+  /**
+   * Builds a new root with a word known to be present removed
+   * @internal
+   */
+  protected removeWord(word: string): TrieNode<V> {
+    return this.removeNode(this.root, this.split(this.normalize(word)), 0) ?? makeTrieNode<V>(null, new Map());
+  }
+
+  /**
+   * Collects the entries of matching words
+   * @internal
+   */
+  protected collect(prefix: string, options: PrefixSearchOptions): TrieEntry<V>[] {
+    const limit = limitOf(options);
+    const node = this.findNode(this.normalize(prefix));
+    const results: TrieEntry<V>[] = [];
+
+    if (!node || limit === 0) {
+      return results;
+    }
+    if (options.sortBy !== "weight") {
+      this.collectInOrder(node, limit, options.sortBy === "alphabetical", results);
+    } else if (limit >= node.count) {
+      this.collectInOrder(node, Infinity, false, results);
+      results.sort((a, b) => byRelevance(b, a));
+    } else {
+      results.push(...this.collectHeaviest(node, new BoundedHeap(limit, byRelevance<V>)));
+      results.reverse();
+    }
+    return results;
+  }
+
+  /**
+   * Maps a word to the key it is stored under, applying the trie options
+   * @internal
+   */
+  protected normalize(word: string): string {
+    return normalizeKey(word, this.options);
+  }
+
+  /**
+   * Splits a key into trie edges: code points, or grapheme clusters when enabled
+   * @internal
+   */
+  protected split(key: string): string[] {
+    return this.splitter(key);
+  }
+
+  /** @internal */
+  protected findNode(prefix: string): TrieNode<V> | null {
+    let current = this.root;
+    for (const char of this.split(prefix)) {
+      const child = current.children.get(char);
+      if (!child) {
+        return null;
+      }
+      current = child;
+    }
+    return current;
+  }
+
+  private insertNode(node: TrieNode<V>, chars: string[], index: number, entry: TrieEntry<V>): TrieNode<V> {
+    if (index === chars.length) {
+      return makeTrieNode(entry, node.children);
+    }
+
+    const char = chars[index];
+    const child = node.children.get(char) ?? makeTrieNode<V>(null, new Map());
+    const children = new Map(node.children);
+    children.set(char, this.insertNode(child, chars, index + 1, entry));
+    return makeTrieNode(node.entry, children);
+  }
+
+  /**
+   * Removes a word known to be present, pruning nodes left without words
+   * @internal
+   */
+  private removeNode(node: TrieNode<V>, chars: string[], index: number): TrieNode<V> | null {
+    if (index === chars.length) {
+      return node.children.size === 0 ? null : makeTrieNode<V>(null, node.children);
+    }
+
+    const char = chars[index];
+    const child = this.removeNode(node.children.get(char)!, chars, index + 1);
+    const children = new Map(node.children);
+    if (child) {
+      children.set(char, child);
+    } else {
+      children.delete(char);
+    }
+    if (children.size === 0 && !node.entry) {
+      return null;
+    }
+    return makeTrieNode(node.entry, children);
+  }
+
+  private collectWithinDistance(
+    node: TrieNode<V>,
+    char: string,
+    target: string[],
+    previousRow: number[],
+    maxEdits: number,
+    matches: [TrieEntry<V>, number][]
+  ): void {
+    const row = [previousRow[0] + 1];
+    for (let j = 1; j <= target.length; j++) {
+      const substitution = previousRow[j - 1] + (target[j - 1] === char ? 0 : 1);
+      row.push(Math.min(row[j - 1] + 1, previousRow[j] + 1, substitution));
+    }
+
+    const distance = row[target.length];
+    if (node.entry && distance <= maxEdits) {
+      matches.push([node.entry, distance]);
+    }
+    if (Math.min(...row) > maxEdits) {
+      return;
+    }
+    for (const [nextChar, child] of node.children) {
+      this.collectWithinDistance(child, nextChar, target, row, maxEdits, matches);
+    }
+  }
+
+  /**
+   * Depth-first wildcard matching. Visited (node, position) pairs are
+   * remembered so that patterns with several stars stay polynomial and
+   * each word is reported once.
+   * @internal
+   */
+  private collectMatches(
+    node: TrieNode<V>,
+    tokens: string[],
+    index: number,
+    visited: Map<TrieNode<V>, Set<number>>,
+    results: TrieEntry<V>[]
+  ): void {
+    const seen = visited.get(node) ?? new Set<number>();
+    if (seen.has(index)) return;
+    seen.add(index);
+    visited.set(node, seen);
+
+    if (index === tokens.length) {
+      if (node.entry) results.push(node.entry);
+      return;
+    }
+
+    const token = tokens[index];
+    if (token === "*") {
+      this.collectMatches(node, tokens, index + 1, visited, results);
+      for (const child of node.children.values()) {
+        this.collectMatches(child, tokens, index, visited, results);
+      }
+    } else if (token === "?") {
+      for (const child of node.children.values()) {
+        this.collectMatches(child, tokens, index + 1, visited, results);
+      }
+    } else {
+      const child = node.children.get(token);
+      if (child) this.collectMatches(child, tokens, index + 1, visited, results);
+    }
+  }
+
+  private collectInOrder(node: TrieNode<V>, limit: number, alphabetical: boolean, results: TrieEntry<V>[]): void {
+    if (node.entry) {
+      results.push(node.entry);
+    }
+
+    const children = alphabetical ? [...node.children].sort(([a], [b]) => Comparators.natural(a, b)) : node.children;
+    for (const [, child] of children) {
+      if (results.length >= limit) return;
+      this.collectInOrder(child, limit, alphabetical, results);
+    }
+  }
+
+  /**
+   * Branch-and-bound search for the heaviest words, kept in a heap bounded
+   * by the limit. Subtrees are visited heaviest first and skipped once their
+   * cached maxWeight cannot beat the least relevant word kept, so only a
+   * fraction of the subtree is explored.
+   * @internal
+   */
+  private collectHeaviest(node: TrieNode<V>, heap: BoundedHeap<TrieEntry<V>>): BoundedHeap<TrieEntry<V>> {
+    if (heap.isFull() && node.maxWeight < heap.peek()!.weight) {
+      return heap;
+    }
+
+    let result = node.entry ? heap.add(node.entry) : heap;
+    const children = [...node.children].sort(
+      ([a, x], [b, y]) => y.maxWeight - x.maxWeight || Comparators.natural(a, b)
+    );
+    for (const [, child] of children) {
+      result = this.collectHeaviest(child, result);
+    }
+    return result;
+  }
+}
+
+/**
+ * A functional Trie (prefix tree) implementation.
+ * Optimized for string operations like prefix matching and autocompletion.
+ * Nodes are never mutated: insert and remove copy only the nodes along the
+ * word's path and share every other node with the previous version.
+ *
+ * @example
+ * ```typescript
+ * const trie = new Trie();
+ * const trie2 = trie.insert("hello").insert("help");
+ * console.log(trie2.containsPrefix("hel")); // true
+ * ```
+ */
+export class Trie extends BaseTrie<true> {
+  /**
+   * Creates a new trie with a word inserted
+   *
+   * @param word - Word to insert
+   * @returns A new Trie with the word inserted
+   */
+  insert(word: string): Trie {
+    return this.withRoot(this.insertWord(word, true, 0));
+  }
+
+  /**
+   * Creates a new trie with a word removed
+   *
+   * @param word - Word to remove
+   * @returns A new Trie without the word, or this trie if the word is absent
+   */
+  remove(word: string): Trie {
+    if (!this.contains(word)) {
+      return this;
+    }
+    return this.withRoot(this.removeWord(word));
+  }
+
+  private withRoot(root: TrieNode<true>): Trie {
+    const trie = new Trie(this.options);
+    trie.root = root;
+    return trie;
+  }
+}
+
+/**
+ * A functional Trie that associates a value and a ranking weight with each word.
+ * Prefix counts are cached on every node, and the heaviest completions
+ * of a prefix can be found without visiting the whole subtree.
+ *
+ * @template V The type of value attached to each word
+ * @example
+ * ```typescript
+ * const trie = new TrieMap<number>()
+ *   .set("help", 1, 40)
+ *   .set("hello", 2, 90)
+ *   .set("heap", 3, 10);
+ *
+ * console.log(trie.get("hello")); // 2
+ * console.log(trie.countWordsWithPrefix("he")); // 3
+ * console.log(trie.findWordsWithPrefix("hel", { limit: 1, sortBy: "weight" })); // ["hello"]
+ * ```
+ */
+export class TrieMap<V> extends BaseTrie<V> {
+  /**
+   * Creates a TrieMap from [word, value] or [word, value, weight] entries
+   *
+   * @param entries - Array of entries to add
+   * @param options - Optional key mapping settings
+   * @returns A new TrieMap containing all entries
+   * @throws {TypeError} If entries is not an array
+   */
+  static from<V>(entries: ([string, V] | [string, V, number])[], options?: TrieOptions): TrieMap<V> {
+    if (!Array.isArray(entries)) {
+      throw new TypeError("Entries must be an array");
+    }
+    return entries.reduce((trie, [word, value, weight]) => trie.set(word, value, weight), new TrieMap<V>(options));
+  }
+
+  /**
+   * Creates a new trie with a word set to a value, replacing any previous entry
+   *
+   * @param word - Word to set
+   * @param value - Value to attach
+   * @param weight - Ranking weight used by sortBy: "weight" (default 0)
+   * @returns A new TrieMap with the entry set
+   * @throws {TypeError} If weight is not a finite number
+   */
+  set(word: string, value: V, weight: number = 0): TrieMap<V> {
+    return this.withRoot(this.insertWord(word, value, weight));
+  }
+
+  /**
+   * Returns the value attached to a word
+   *
+   * @param word - Word to look up
+   * @returns The value or undefined if the word is absent
+   */
+  get(word: string): V | undefined {
+    return this.findNode(this.normalize(word))?.entry?.value;
   }
 
-  private removeNode(node: BinaryNode<T> | null, value: T): BinaryNode<T> | null {
-    if (!node) return null;
+  /**
+   * Returns the ranking weight of a word
+   *
+   * @param word - Word to look up
+   * @returns The weight or undefined if the word is absent
+   */
+  getWeight(word: string): number | undefined {
+    return this.findNode(this.normalize(word))?.entry?.weight;
+  }
 
-    if ((value < node.value) as any) {
-      return { ...node, left: this.removeNode(node.left, value) };
-    } else if ((value > node.value) as any) {
-      return { ...node, right: this.removeNode(node.right, value) };
+  /**
+   * Creates a new trie with a word removed
+   *
+   * @param word - Word to remove
+   * @returns A new TrieMap without the word, or this trie if the word is absent
+   */
+  delete(word: string): TrieMap<V> {
+    if (!this.contains(word)) {
+      return this;
     }
-
-    // Node to delete found
-    if (!node.left) return node.right;
-    if (!node.right) return node.left;
-
-    // Node has two children
-    const minNode = this.findMin(node.right);
-    return {
-      value: minNode.value,
-      left: node.left,
-      right: this.removeNode(node.right, minNode.value),
-    };
+    return this.withRoot(this.removeWord(word));
   }
 
-  private findNode(node: BinaryNode<T> | null, value: T): BinaryNode<T> | null {
-    if (!node) return null;
-    if (value === node.value) return node;
-    return ((value < node.value) as any) ? this.findNode(node.left, value) : this.findNode(node.right, value);
+  /**
+   * Finds the [word, value] entries whose word starts with the given prefix
+   *
+   * @param prefix - Prefix to search for
+   * @param options - Optional result limit and ordering
+   * @returns Array of matching entries
+   * @throws {Error} If limit is not a non-negative integer
+   */
+  findEntriesWithPrefix(prefix: string, options: PrefixSearchOptions = {}): [string, V][] {
+    return this.collect(prefix, options).map(({ word, value }) => [word, value]);
   }
 
-  private findMin(node: BinaryNode<T>): BinaryNode<T> {
-    let current = node;
-    while (current.left) {
-      current = current.left;
-    }
-    return current;
+  /**
+   * Makes the TrieMap iterable, yielding [word, value] entries in trie order
+   */
+  *[Symbol.iterator](): Iterator<[string, V]> {
+    yield* this.findEntriesWithPrefix("");
   }
 
-  private calculateSize(node: BinaryNode<T> | null): number {
-    if (!node) return 0;
-    return 1 + this.calculateSize(node.left) + this.calculateSize(node.right);
+  private withRoot(root: TrieNode<V>): TrieMap<V> {
+    const trie = new TrieMap<V>(this.options);
+    trie.root = root;
+    return trie;
   }
 }
 
 /**
- * A functional Trie (prefix tree) implementation.
- * Optimized for string operations like prefix matching and autocompletion.
+ * A functional radix (compressed) trie with the same API as Trie.
+ * Chains of nodes with a single child are collapsed into one edge labelled
+ * with the whole key fragment, so long keys with few branches, such as URL
+ * paths or dictionary words sharing long stems, need far fewer nodes.
+ * Nodes are never mutated: insert and remove copy only the nodes along the
+ * word's path and share every other node with the previous version.
  *
  * @example
  * ```typescript
- * const trie = new Trie();
- * const trie2 = trie.insert("hello").insert("help");
- * console.log(trie2.containsPrefix("hel")); // true
+ * const routes = new RadixTrie({ caseSensitive: true })
+ *   .insert("/api")
+ *   .insert("/api/users")
+ *   .insert("/static");
+ *
+ * console.log(routes.containsPrefix("/api/us")); // true
+ * console.log(routes.longestPrefixMatch("/api/users/42")); // "/api/users"
+ * console.log(routes.longestPrefixMatch("/api/orders")); // "/api"
  * ```
  */
-export class Trie {
-  private root: TrieNode;
+export class RadixTrie {
+  /** @internal Root node, representing the empty prefix */
+  private root: RadixNode;
+  /** @internal Key mapping options */
+  private readonly options: TrieOptions;
+  /** @internal Splits keys into edges */
+  private readonly splitter: (key: string) => string[];
 
   /**
-   * Creates a new empty Trie
+   * Creates a new empty radix trie
+   *
+   * @param options - Optional case, normalization and segmentation settings
    */
-  constructor() {
-    this.root = { isEndOfWord: false, children: new Map() };
+  constructor(options: TrieOptions = {}) {
+    this.root = makeRadixNode("", null, null, NO_RADIX_CHILDREN);
+    this.options = options;
+    this.splitter = createSplitter(options);
   }
 
   /**
    * Creates a new trie with a word inserted
    *
    * @param word - Word to insert
-   * @returns A new Trie with the word inserted
+   * @returns A new RadixTrie with the word inserted
    */
-  insert(word: string): Trie {
-    const trie = new Trie();
-    trie.root.children = new Map(this.root.children);
-
-    let current = trie.root;
-    for (const char of word.toLowerCase()) {
-      if (!current.children.has(char)) {
-        current.children.set(char, {
-          isEndOfWord: false,
-          children: new Map(),
-        });
-      }
-      current = current.children.get(char)!;
-    }
-    current.isEndOfWord = true;
+  insert(word: string): RadixTrie {
+    return this.withRoot(this.insertNode(this.root, this.keyOf(word), 0, word));
+  }
 
-    return trie;
+  /**
+   * Creates a new trie with a word removed
+   *
+   * @param word - Word to remove
+   * @returns A new RadixTrie without the word, or this trie if the word is absent
+   */
+  remove(word: string): RadixTrie {
+    if (!this.contains(word)) {
+      return this;
+    }
+    return this.withRoot(this.removeNode(this.root, this.keyOf(word), 0));
   }
 
   /**
@@ -211,8 +2064,8 @@ export class Trie {
    * @returns true if the word exists
    */
   contains(word: string): boolean {
-    const node = this.findNode(word.toLowerCase());
-    return node !== null && node.isEndOfWord;
+    const found = this.descend(this.keyOf(word));
+    return found !== null && found.rest === 0 && found.node.word !== null;
   }
 
   /**
@@ -222,46 +2075,214 @@ export class Trie {
    * @returns true if any word starts with the prefix
    */
   containsPrefix(prefix: string): boolean {
-    return this.findNode(prefix.toLowerCase()) !== null;
+    return this.descend(this.keyOf(prefix)) !== null;
+  }
+
+  /**
+   * Counts the words that start with the given prefix
+   * Time Complexity: O(m) where m is the prefix length
+   *
+   * @param prefix - Prefix to search for
+   * @returns The number of words with the given prefix
+   */
+  countWordsWithPrefix(prefix: string): number {
+    return this.descend(this.keyOf(prefix))?.node.count ?? 0;
+  }
+
+  /**
+   * Returns the number of words in the trie
+   */
+  size(): number {
+    return this.root.count;
+  }
+
+  /**
+   * Returns the number of nodes, including the root. Chains of single-child
+   * nodes are collapsed, so this stays below twice the number of words
+   * however long the words are.
+   * Time Complexity: O(k) where k is the number of nodes
+   */
+  nodeCount(): number {
+    let count = 0;
+    const stack = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      count++;
+      stack.push(...node.children.values());
+    }
+    return count;
   }
 
   /**
-   * Finds all words that start with the given prefix
+   * Finds the words that start with the given prefix. Words carry no weight,
+   * so with sortBy: "weight" every word ties and Trie's tie-break decides:
+   * the words as inserted, in code unit order. This can differ from
+   * sortBy: "alphabetical", which orders by the mapped keys.
    *
    * @param prefix - Prefix to search for
+   * @param options - Optional result limit and ordering
    * @returns Array of words with the given prefix
+   * @throws {Error} If limit is not a non-negative integer
    */
-  findWordsWithPrefix(prefix: string): string[] {
-    const words: string[] = [];
-    const node = this.findNode(prefix.toLowerCase());
+  findWordsWithPrefix(prefix: string, options: PrefixSearchOptions = {}): string[] {
+    const limit = limitOf(options);
+    const found = this.descend(this.keyOf(prefix));
+    const results: string[] = [];
 
-    if (node) {
-      this.collectWords(node, prefix.toLowerCase(), words);
+    if (!found || limit === 0) {
+      return results;
     }
+    if (options.sortBy === "weight") {
+      this.collect(found.node, Infinity, false, results);
+      return results.sort(Comparators.natural).slice(0, limit);
+    }
+    this.collect(found.node, limit, options.sortBy === "alphabetical", results);
+    return results;
+  }
+
+  /**
+   * Finds the longest stored word that is a prefix of the input, as used for
+   * routing tables where the most specific matching route wins
+   * Time Complexity: O(m) where m is the input length
+   *
+   * @param input - String to match, e.g. a request path
+   * @returns The longest matching word, or undefined if no word is a prefix of the input
+   */
+  longestPrefixMatch(input: string): string | undefined {
+    const key = this.keyOf(input);
+    let node = this.root;
+    let index = 0;
+    let match = node.word;
 
-    return words;
+    while (index < key.text.length) {
+      const child = node.children.get(edgeAt(key.text, key.breaks, index));
+      if (!child) break;
+      if (commonLength(child, key, index) < child.label.length) break;
+
+      node = child;
+      index += child.label.length;
+      if (node.word !== null) match = node.word;
+    }
+    return match ?? undefined;
   }
 
-  private findNode(prefix: string): TrieNode | null {
-    let current = this.root;
-    for (const char of prefix) {
-      if (!current.children.has(char)) {
+  /**
+   * Maps a word to its key. Only keys split into graphemes are segmented,
+   * recording where each cluster ends; labels are compared by code unit.
+   * @internal
+   */
+  private keyOf(word: string): RadixKey {
+    const text = normalizeKey(word, this.options);
+    if (!this.options.graphemes) {
+      return { text, breaks: null };
+    }
+    let end = 0;
+    return { text, breaks: this.splitter(text).map((edge) => (end += edge.length)) };
+  }
+
+  /**
+   * Follows a key from the root. Returns the node at which the key ends,
+   * with the number of code units of its label left unmatched when the key
+   * ends partway along that label, or null if no stored key starts with it.
+   * @internal
+   */
+  private descend(key: RadixKey): { node: RadixNode; rest: number } | null {
+    let node = this.root;
+    let index = 0;
+
+    while (index < key.text.length) {
+      const child = node.children.get(edgeAt(key.text, key.breaks, index));
+      if (!child) {
         return null;
       }
-      current = current.children.get(char)!;
+      const common = commonLength(child, key, index);
+      if (common < child.label.length) {
+        return index + common === key.text.length ? { node: child, rest: child.label.length - common } : null;
+      }
+      node = child;
+      index += common;
     }
-    return current;
+    return { node, rest: 0 };
+  }
+
+  private insertNode(node: RadixNode, key: RadixKey, index: number, word: string): RadixNode {
+    if (index === key.text.length) {
+      return makeRadixNode(node.label, node.breaks, word, node.children);
+    }
+
+    const edge = edgeAt(key.text, key.breaks, index);
+    const child = node.children.get(edge);
+    let next: RadixNode;
+    if (!child) {
+      const breaks = sliceBreaks(key.breaks, index, key.text.length);
+      next = makeRadixNode(key.text.slice(index), breaks, word, NO_RADIX_CHILDREN);
+    } else {
+      const { label, breaks } = child;
+      const common = commonLength(child, key, index);
+      if (common === label.length) {
+        next = this.insertNode(child, key, index + common, word);
+      } else {
+        // Split the edge where the key leaves it
+        const tailBreaks = sliceBreaks(breaks, common, label.length);
+        const tail = makeRadixNode(label.slice(common), tailBreaks, child.word, child.children);
+        const headChildren = new Map([[edgeAt(label, breaks, common), tail]]);
+        const head = makeRadixNode(label.slice(0, common), sliceBreaks(breaks, 0, common), null, headChildren);
+        next = this.insertNode(head, key, index + common, word);
+      }
+    }
+
+    const children = new Map(node.children);
+    children.set(edge, next);
+    return makeRadixNode(node.label, node.breaks, node.word, children);
+  }
+
+  /**
+   * Removes a word known to be present, pruning nodes left without words
+   * and merging nodes left with a single child into their child's edge
+   * @internal
+   */
+  private removeNode(node: RadixNode, key: RadixKey, index: number): RadixNode {
+    if (index === key.text.length) {
+      return makeRadixNode(node.label, node.breaks, null, node.children);
+    }
+
+    const edge = edgeAt(key.text, key.breaks, index);
+    const child = node.children.get(edge)!;
+    const next = this.removeNode(child, key, index + child.label.length);
+    if (next.word === null && next.children.size === 0 && node.children.size === 1) {
+      return makeRadixNode(node.label, node.breaks, node.word, NO_RADIX_CHILDREN);
+    }
+
+    const children = new Map(node.children);
+    if (next.word !== null || next.children.size > 1) {
+      children.set(edge, next);
+    } else if (next.children.size === 1) {
+      const [only] = next.children.values();
+      const breaks = next.breaks && only.breaks && [...next.breaks, ...only.breaks.map((b) => b + next.label.length)];
+      children.set(edge, makeRadixNode(next.label + only.label, breaks, only.word, only.children));
+    } else {
+      children.delete(edge);
+    }
+    return makeRadixNode(node.label, node.breaks, node.word, children);
   }
 
-  private collectWords(node: TrieNode, prefix: string, words: string[]): void {
-    if (node.isEndOfWord) {
-      words.push(prefix);
+  private collect(node: RadixNode, limit: number, alphabetical: boolean, results: string[]): void {
+    if (node.word !== null) {
+      results.push(node.word);
     }
 
-    for (const [char, childNode] of node.children) {
-      this.collectWords(childNode, prefix + char, words);
+    const children = alphabetical ? [...node.children].sort(([a], [b]) => Comparators.natural(a, b)) : node.children;
+    for (const [, child] of children) {
+      if (results.length >= limit) return;
+      this.collect(child, limit, alphabetical, results);
     }
   }
+
+  private withRoot(root: RadixNode): RadixTrie {
+    const trie = new RadixTrie(this.options);
+    trie.root = root;
+    return trie;
+  }
 }
 
 /**
@@ -280,13 +2301,21 @@ export class Trie {
 export class GeneralTree<T> {
   private root: TreeNode<T> | null;
   private _size: number;
+  private readonly equals: EqualsFn<T>;
 
   /**
    * Creates a new empty General Tree
+   *
+   * @param equals - Optional equality used by insertChild to find parents. Defaults to ===
+   * @throws {TypeError} If equals is not a function when provided
    */
-  constructor() {
+  constructor(equals: EqualsFn<T> = defaultEquals) {
+    if (typeof equals !== "function") {
+      throw new TypeError("Equality function must be a function");
+    }
     this.root = null;
     this._size = 0;
+    this.equals = equals;
   }
 
   /**
@@ -299,26 +2328,154 @@ export class GeneralTree<T> {
     if (this.root) {
       return this; // Already has a root
     }
-    const tree = new GeneralTree<T>();
+    const tree = new GeneralTree<T>(this.equals);
     tree.root = { value, children: [] };
     tree._size = 1;
     return tree;
   }
 
   /**
-   * Creates a new tree with a child added to the specified parent
+   * Creates a new tree with a child added to the specified parent.
+   * Parents are matched with the tree's equality; use insertChildAt when values repeat.
    *
    * @param parentValue - Value of the parent node
    * @param childValue - Value to insert as child
+   * @param equals - Optional equality for this call. Defaults to the tree's
    * @returns A new GeneralTree with the child added
    */
-  insertChild(parentValue: T, childValue: T): GeneralTree<T> {
-    const tree = new GeneralTree<T>();
-    tree.root = this.insertChildNode(this.root, parentValue, childValue);
+  insertChild(parentValue: T, childValue: T, equals: EqualsFn<T> = this.equals): GeneralTree<T> {
+    const tree = new GeneralTree<T>(this.equals);
+    tree.root = this.insertChildNode(this.root, parentValue, childValue, equals);
     tree._size = this.calculateSize(tree.root);
     return tree;
   }
 
+  /**
+   * Creates a new tree with a child added under the node at a path.
+   * Unlike insertChild, the parent is found by position, so duplicate
+   * and object values are unambiguous.
+   *
+   * @param path - Path of the parent node
+   * @param value - Value to insert as child
+   * @param index - Position among the parent's children (default: after the last child)
+   * @returns A new GeneralTree with the child added, or this same tree if the path does not exist
+   * @throws {RangeError} If index is not an integer between 0 and the parent's number of children
+   * @example
+   * ```typescript
+   * const folders = new GeneralTree<string>()
+   *   .insert("/")
+   *   .insertChildAt([], "src")
+   *   .insertChildAt([], "test")
+   *   .insertChildAt([0], "utils")
+   *   .insertChildAt([1], "utils"); // a second, distinct "utils"
+   * ```
+   */
+  insertChildAt(path: TreePath, value: T, index?: number): GeneralTree<T> {
+    if (!this.nodeAt(path)) {
+      return this;
+    }
+
+    const root = this.updateAt(this.root!, path, 0, (node) => this.addChild(node, { value, children: [] }, index));
+    return this.withRoot(root, this._size + 1);
+  }
+
+  /**
+   * Returns the node at a path
+   *
+   * @param path - Path of the node
+   * @returns The node, or undefined if the path does not exist
+   */
+  nodeAt(path: TreePath): TreeNode<T> | undefined {
+    let node = this.root ?? undefined;
+    for (const index of path) {
+      node = node?.children[index];
+    }
+    return node;
+  }
+
+  /**
+   * Returns the parent of the node at a path
+   *
+   * @param path - Path of the node
+   * @returns The parent node, or undefined for the root or a path that does not exist
+   */
+  parentOf(path: TreePath): TreeNode<T> | undefined {
+    if (path.length === 0 || !this.nodeAt(path)) {
+      return undefined;
+    }
+    return this.nodeAt(path.slice(0, -1));
+  }
+
+  /**
+   * Creates a new tree with the value of the node at a path replaced
+   *
+   * @param path - Path of the node
+   * @param value - New value
+   * @returns A new GeneralTree with the value replaced, or this same tree if the path does not exist
+   */
+  replaceValue(path: TreePath, value: T): GeneralTree<T> {
+    if (!this.nodeAt(path)) {
+      return this;
+    }
+    return this.withRoot(this.updateAt(this.root!, path, 0, (node) => ({ ...node, value })), this._size);
+  }
+
+  /**
+   * Creates a new tree with the node at a path and all its descendants removed
+   *
+   * @param path - Path of the subtree root; [] empties the tree
+   * @returns A new GeneralTree without the subtree, or this same tree if the path does not exist
+   */
+  removeSubtree(path: TreePath): GeneralTree<T> {
+    const subtree = this.nodeAt(path);
+    if (!subtree) {
+      return this;
+    }
+    if (path.length === 0) {
+      return new GeneralTree<T>(this.equals);
+    }
+
+    const childIndex = path[path.length - 1];
+    const root = this.updateAt(this.root!, path.slice(0, -1), 0, (node) => ({
+      ...node,
+      children: node.children.filter((_, i) => i !== childIndex),
+    }));
+    return this.withRoot(root, this._size - this.calculateSize(subtree));
+  }
+
+  /**
+   * Creates a new tree with the subtree at one path moved under the node at
+   * another. Both paths refer to this tree, before the move.
+   *
+   * @param from - Path of the subtree to move
+   * @param to - Path of the new parent
+   * @param index - Position among the new parent's children once the subtree
+   *   has been detached (default: after the last child)
+   * @returns A new GeneralTree with the subtree moved, or this same tree if either path does not exist
+   * @throws {Error} If the new parent is the subtree itself or one of its descendants
+   * @throws {RangeError} If index is not an integer between 0 and the new parent's number of children
+   */
+  moveSubtree(from: TreePath, to: TreePath, index?: number): GeneralTree<T> {
+    const subtree = this.nodeAt(from);
+    if (!subtree || !this.nodeAt(to)) {
+      return this;
+    }
+    if (from.every((childIndex, depth) => to[depth] === childIndex)) {
+      throw new Error("Cannot move a subtree into itself");
+    }
+
+    // Detaching the subtree shifts its later siblings, and their descendants, one place left
+    const depth = from.length - 1;
+    const target = [...to];
+    if (target.length > depth && from.slice(0, depth).every((i, d) => to[d] === i) && target[depth] > from[depth]) {
+      target[depth]--;
+    }
+
+    const detached = this.removeSubtree(from);
+    const root = this.updateAt(detached.root!, target, 0, (node) => this.addChild(node, subtree, index));
+    return this.withRoot(root, this._size);
+  }
+
   /**
    * Returns the size of the tree
    */
@@ -330,14 +2487,201 @@ export class GeneralTree<T> {
    * Performs a breadth-first traversal of the tree
    */
   *levelOrder(): IterableIterator<T> {
-    if (!this.root) return;
+    for (const { value } of this.levelOrderWithDepth()) {
+      yield value;
+    }
+  }
+
+  /**
+   * Performs a breadth-first traversal, yielding each value with its depth
+   * (the root has depth 0)
+   */
+  *levelOrderWithDepth(): IterableIterator<{ value: T; depth: number }> {
+    const queue: [TreeNode<T>, number][] = this.root ? [[this.root, 0]] : [];
+
+    for (let i = 0; i < queue.length; i++) {
+      const [node, depth] = queue[i];
+      yield { value: node.value, depth };
+      for (const child of node.children) {
+        queue.push([child, depth + 1]);
+      }
+    }
+  }
+
+  /**
+   * Performs a depth-first traversal visiting each node before its children
+   */
+  *preorder(): IterableIterator<T> {
+    const stack = this.root ? [this.root] : [];
 
-    const queue: TreeNode<T>[] = [this.root];
-    while (queue.length > 0) {
-      const node = queue.shift()!;
+    while (stack.length > 0) {
+      const node = stack.pop()!;
       yield node.value;
-      queue.push(...node.children);
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]);
+      }
+    }
+  }
+
+  /**
+   * Performs a depth-first traversal visiting each node after its children
+   */
+  *postorder(): IterableIterator<T> {
+    // Each entry tracks the index of the next child to visit
+    const stack: [TreeNode<T>, number][] = this.root ? [[this.root, 0]] : [];
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const [node, childIndex] = top;
+      if (childIndex < node.children.length) {
+        top[1]++;
+        stack.push([node.children[childIndex], 0]);
+      } else {
+        stack.pop();
+        yield node.value;
+      }
+    }
+  }
+
+  /**
+   * Returns the number of levels in the tree: 0 when empty, 1 for a lone root
+   */
+  height(): number {
+    return this.foldNodes<number>((_, heights) => 1 + Math.max(0, ...heights)) ?? 0;
+  }
+
+  /**
+   * Creates a new tree with the same shape and every value transformed
+   *
+   * @param fn - Function applied to each value
+   * @returns A new GeneralTree of transformed values
+   */
+  map<U>(fn: (value: T) => U): GeneralTree<U> {
+    const root = this.foldNodes<TreeNode<U>>((node, children) => ({ value: fn(node.value), children })) ?? null;
+    const tree = new GeneralTree<U>();
+    tree.root = root;
+    tree._size = this._size;
+    return tree;
+  }
+
+  /**
+   * Creates a new tree keeping only the nodes that satisfy a predicate.
+   * A node that fails is pruned together with its whole subtree, and its
+   * descendants are not tested.
+   *
+   * @param predicate - Function tested against each value
+   * @returns A new GeneralTree with failing subtrees removed, or this tree if nothing was removed
+   */
+  filter(predicate: (value: T) => boolean): GeneralTree<T> {
+    const root = this.root && this.filterNode(this.root, predicate);
+    if (root === this.root) {
+      return this;
+    }
+    return this.withRoot(root, this.calculateSize(root));
+  }
+
+  /**
+   * Combines the tree bottom-up: each node's result is computed from its
+   * value and the results of its children, in child order
+   *
+   * @param fn - Function combining a value with its children's results
+   * @returns The root's result, or undefined if the tree is empty
+   * @example
+   * ```typescript
+   * // Total headcount under each manager, rolled up to the root
+   * const headcount = orgChart.fold<number>((_, reports) => 1 + reports.reduce((a, b) => a + b, 0));
+   * ```
+   */
+  fold<U>(fn: (value: T, childResults: U[]) => U): U | undefined {
+    return this.foldNodes((node, childResults) => fn(node.value, childResults));
+  }
+
+  /**
+   * Accumulates every value in preorder, like Array.prototype.reduce
+   *
+   * @param fn - Function combining the accumulator with each value
+   * @param initial - Initial accumulator
+   * @returns The final accumulator
+   */
+  reduce<U>(fn: (accumulator: U, value: T) => U, initial: U): U {
+    let accumulator = initial;
+    for (const value of this.preorder()) {
+      accumulator = fn(accumulator, value);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Returns the first value in preorder that satisfies a predicate
+   *
+   * @param predicate - Function tested against each value
+   * @returns The value, or undefined if none matches
+   */
+  find(predicate: (value: T) => boolean): T | undefined {
+    const path = this.pathTo(predicate);
+    return path && this.nodeAt(path)!.value;
+  }
+
+  /**
+   * Returns the path of the first node in preorder whose value satisfies a predicate
+   *
+   * @param predicate - Function tested against each value
+   * @returns The node's path, or undefined if none matches
+   */
+  pathTo(predicate: (value: T) => boolean): TreePath | undefined {
+    const stack: [TreeNode<T>, TreePath][] = this.root ? [[this.root, []]] : [];
+
+    while (stack.length > 0) {
+      const [node, path] = stack.pop()!;
+      if (predicate(node.value)) {
+        return path;
+      }
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push([node.children[i], [...path, i]]);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Iterates over the values of nodes without children, left to right
+   */
+  *leaves(): IterableIterator<T> {
+    const stack = this.root ? [this.root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.children.length === 0) {
+        yield node.value;
+      }
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]);
+      }
+    }
+  }
+
+  /**
+   * Returns the path of the deepest node that is an ancestor of both nodes.
+   * A node counts as its own ancestor.
+   *
+   * @param a - Path of the first node
+   * @param b - Path of the second node
+   * @returns The common ancestor's path, or undefined if either path does not exist
+   * @example
+   * ```typescript
+   * const lca = orgChart.lowestCommonAncestor(orgChart.pathTo(isAlice)!, orgChart.pathTo(isBob)!);
+   * console.log(orgChart.nodeAt(lca!)?.value);
+   * ```
+   */
+  lowestCommonAncestor(a: TreePath, b: TreePath): TreePath | undefined {
+    if (!this.nodeAt(a) || !this.nodeAt(b)) {
+      return undefined;
+    }
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) {
+      length++;
     }
+    return a.slice(0, length);
   }
 
   /**
@@ -347,10 +2691,15 @@ export class GeneralTree<T> {
     yield* this.levelOrder();
   }
 
-  private insertChildNode(node: TreeNode<T> | null, parentValue: T, childValue: T): TreeNode<T> | null {
+  private insertChildNode(
+    node: TreeNode<T> | null,
+    parentValue: T,
+    childValue: T,
+    equals: EqualsFn<T>
+  ): TreeNode<T> | null {
     if (!node) return null;
 
-    if (node.value === parentValue) {
+    if (equals(node.value, parentValue)) {
       return {
         ...node,
         children: [...node.children, { value: childValue, children: [] }],
@@ -359,7 +2708,7 @@ export class GeneralTree<T> {
 
     return {
       ...node,
-      children: node.children.map((child) => this.insertChildNode(child, parentValue, childValue) || child),
+      children: node.children.map((child) => this.insertChildNode(child, parentValue, childValue, equals) || child),
     };
   }
 
@@ -367,4 +2716,83 @@ export class GeneralTree<T> {
     if (!node) return 0;
     return 1 + node.children.reduce((sum, child) => sum + this.calculateSize(child), 0);
   }
+
+  /**
+   * Iterative post-order fold, so deep trees do not overflow the stack
+   * @internal
+   */
+  private foldNodes<U>(fn: (node: TreeNode<T>, childResults: U[]) => U): U | undefined {
+    // Each entry tracks the index of the next child to visit; finished
+    // subtrees leave their result on the results stack, siblings adjacent
+    const stack: [TreeNode<T>, number][] = this.root ? [[this.root, 0]] : [];
+    const results: U[] = [];
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const [node, childIndex] = top;
+      if (childIndex < node.children.length) {
+        top[1]++;
+        stack.push([node.children[childIndex], 0]);
+      } else {
+        stack.pop();
+        const childResults = results.splice(results.length - node.children.length);
+        results.push(fn(node, childResults));
+      }
+    }
+    return results[0];
+  }
+
+  /**
+   * Prunes failing subtrees, returning the node itself when nothing below it changed
+   * @internal
+   */
+  private filterNode(node: TreeNode<T>, predicate: (value: T) => boolean): TreeNode<T> | null {
+    if (!predicate(node.value)) {
+      return null;
+    }
+    const children = node.children.map((child) => this.filterNode(child, predicate));
+    if (children.every((child, i) => child === node.children[i])) {
+      return node;
+    }
+    return { ...node, children: children.filter((child): child is TreeNode<T> => child !== null) };
+  }
+
+  /**
+   * Rebuilds the nodes along a path known to exist, applying an update to
+   * the node at its end and sharing every other node
+   * @internal
+   */
+  private updateAt(
+    node: TreeNode<T>,
+    path: TreePath,
+    depth: number,
+    update: (node: TreeNode<T>) => TreeNode<T>
+  ): TreeNode<T> {
+    if (depth === path.length) {
+      return update(node);
+    }
+    const children = [...node.children];
+    children[path[depth]] = this.updateAt(children[path[depth]], path, depth + 1, update);
+    return { ...node, children };
+  }
+
+  /**
+   * Copies a node with a child inserted at an index, by default after the last child
+   * @internal
+   */
+  private addChild(node: TreeNode<T>, child: TreeNode<T>, index = node.children.length): TreeNode<T> {
+    if (!Number.isInteger(index) || index < 0 || index > node.children.length) {
+      throw new RangeError("Index out of range");
+    }
+    const children = [...node.children];
+    children.splice(index, 0, child);
+    return { ...node, children };
+  }
+
+  private withRoot(root: TreeNode<T> | null, size: number): GeneralTree<T> {
+    const tree = new GeneralTree<T>(this.equals);
+    tree.root = root;
+    tree._size = size;
+    return tree;
+  }
 }
@@ -5,3 +5,7 @@ export * from "./data-structures/linkedlist";
 
 export * from "./algorithms/sort";
 export * from "./algorithms/search";
+export * from "./algorithms/external-sort";
+
+export * from "./utils/comparators";
+export * from "./utils/metrics";
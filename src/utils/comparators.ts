@@ -0,0 +1,263 @@
+/**
+ * Type definition for comparison function, shared by every module.
+ * Returns a negative number if a orders before b, a positive number if
+ * after, and 0 if they are equal.
+ * @template T The type of values being compared
+ */
+export type CompareFn<T> = (a: T, b: T) => number;
+
+/**
+ * Type definition for equality function, shared by the lists and GeneralTree.
+ * Decides whether two values are the same value.
+ * @template T The type of values being compared
+ */
+export type EqualsFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Default equality: strict equality (===)
+ */
+export const defaultEquals = (a: unknown, b: unknown): boolean => a === b;
+
+/**
+ * Matches each digit run in a string, for naturalStringOrder
+ * @internal
+ */
+const DIGIT_RUN = /\d+/y;
+
+/**
+ * Builders for comparison functions. Each returns a plain CompareFn, so the
+ * results can be passed to Sorting, Searching, the heaps, priority queues and
+ * trees, and combined with one another.
+ *
+ * @example
+ * ```typescript
+ * interface Person {
+ *   name: string;
+ *   age: number | null;
+ * }
+ *
+ * const byAgeThenName = Comparators.thenBy<Person>(
+ *   Comparators.by((person) => person.age, Comparators.nullsLast()),
+ *   Comparators.by((person) => person.name, Comparators.localeCompare("en"))
+ * );
+ * const oldestFirst = Comparators.reversed(byAgeThenName);
+ * ```
+ */
+export class Comparators {
+  /**
+   * The natural ordering of numbers, strings, bigints and Dates, as used by
+   * every default comparator. Numbers and bigints may be mixed; NaN equals
+   * itself and orders after every other number, and Dates compare by time.
+   * Strings compare by UTF-16 code unit, as with < and >.
+   *
+   * @template T The type of values being compared
+   * @param a - First value
+   * @param b - Second value
+   * @returns A negative number, zero or a positive number
+   * @example
+   * ```typescript
+   * ["b", "a"].sort(Comparators.natural); // ["a", "b"]
+   * ```
+   */
+  static natural<T>(a: T, b: T): number {
+    const x: any = a instanceof Date ? a.getTime() : a;
+    const y: any = b instanceof Date ? b.getTime() : b;
+    if (x < y) return -1;
+    if (x > y) return 1;
+    if (x === y) return 0;
+
+    // Only NaN remains unordered by < and >
+    const xNaN = Number.isNaN(x);
+    const yNaN = Number.isNaN(y);
+    return xNaN === yNaN ? 0 : xNaN ? 1 : -1;
+  }
+
+  /**
+   * Orders values by a key extracted from each of them
+   *
+   * @template T The type of values being compared
+   * @template K The type of the extracted key
+   * @param keyFn - Extracts the key to compare
+   * @param compare - Optional key comparison function. Defaults to natural
+   * @returns A comparison function for the values
+   * @throws {TypeError} If keyFn or compare is not a function
+   * @example
+   * ```typescript
+   * const byLength = Comparators.by((word: string) => word.length);
+   * ```
+   */
+  static by<T, K>(keyFn: (value: T) => K, compare: CompareFn<K> = Comparators.natural): CompareFn<T> {
+    if (typeof keyFn !== "function") {
+      throw new TypeError("Key function must be a function");
+    }
+    if (typeof compare !== "function") {
+      throw new TypeError("Comparison function must be a function");
+    }
+    return (a, b) => compare(keyFn(a), keyFn(b));
+  }
+
+  /**
+   * Combines comparison functions: ties under the first are broken by the
+   * second, remaining ties by the third, and so on
+   *
+   * @template T The type of values being compared
+   * @param first - Primary comparison function
+   * @param rest - Tie-breaking comparison functions, in order
+   * @returns The combined comparison function
+   * @throws {TypeError} If any argument is not a function
+   * @example
+   * ```typescript
+   * const byAgeThenName = Comparators.thenBy(
+   *   Comparators.by((person: Person) => person.age),
+   *   Comparators.by((person: Person) => person.name)
+   * );
+   * ```
+   */
+  static thenBy<T>(first: CompareFn<T>, ...rest: CompareFn<T>[]): CompareFn<T> {
+    const comparators = [first, ...rest];
+    if (comparators.some((compare) => typeof compare !== "function")) {
+      throw new TypeError("Comparison function must be a function");
+    }
+    return (a, b) => {
+      for (const compare of comparators) {
+        const order = compare(a, b);
+        if (order !== 0) return order;
+      }
+      return 0;
+    };
+  }
+
+  /**
+   * Reverses an ordering
+   *
+   * @template T The type of values being compared
+   * @param compare - Optional comparison function to reverse. Defaults to natural
+   * @returns A comparison function ordering values from largest to smallest
+   * @throws {TypeError} If compare is not a function
+   */
+  static reversed<T>(compare: CompareFn<T> = Comparators.natural): CompareFn<T> {
+    if (typeof compare !== "function") {
+      throw new TypeError("Comparison function must be a function");
+    }
+    return (a, b) => compare(b, a);
+  }
+
+  /**
+   * Orders null and undefined before every other value, which are compared
+   * with the given function. Null and undefined are equal to each other.
+   *
+   * @template T The type of non-null values being compared
+   * @param compare - Optional comparison function for other values. Defaults to natural
+   * @returns A comparison function accepting null and undefined
+   * @throws {TypeError} If compare is not a function
+   */
+  static nullsFirst<T>(compare: CompareFn<T> = Comparators.natural): CompareFn<T | null | undefined> {
+    return Comparators.withNulls(compare, -1);
+  }
+
+  /**
+   * Orders null and undefined after every other value, which are compared
+   * with the given function. Null and undefined are equal to each other.
+   *
+   * @template T The type of non-null values being compared
+   * @param compare - Optional comparison function for other values. Defaults to natural
+   * @returns A comparison function accepting null and undefined
+   * @throws {TypeError} If compare is not a function
+   */
+  static nullsLast<T>(compare: CompareFn<T> = Comparators.natural): CompareFn<T | null | undefined> {
+    return Comparators.withNulls(compare, 1);
+  }
+
+  /**
+   * Orders strings by the conventions of a locale, using a shared Intl.Collator
+   *
+   * @param locale - Optional BCP 47 locale tag(s). Defaults to the runtime's locale
+   * @param options - Optional collator options, such as { sensitivity: "base" }
+   * @returns A comparison function for strings
+   * @throws {RangeError} If the locale tag is invalid
+   * @example
+   * ```typescript
+   * ["z", "ä", "a"].sort(Comparators.localeCompare("de")); // ["a", "ä", "z"]
+   * ["z", "ä", "a"].sort(Comparators.localeCompare("sv")); // ["a", "z", "ä"]
+   * ```
+   */
+  static localeCompare(locale?: string | string[], options?: Intl.CollatorOptions): CompareFn<string> {
+    return new Intl.Collator(locale, options).compare;
+  }
+
+  /**
+   * Orders strings so that runs of digits compare by numeric value, as in
+   * file listings: "file2" orders before "file10". Other characters compare
+   * by UTF-16 code unit. When two strings differ only in leading zeros, the
+   * one with fewer zeros orders first.
+   *
+   * @param a - First string
+   * @param b - Second string
+   * @returns A negative number, zero or a positive number
+   * @example
+   * ```typescript
+   * ["file10", "file2", "file1"].sort(Comparators.naturalStringOrder); // ["file1", "file2", "file10"]
+   * ```
+   */
+  static naturalStringOrder(a: string, b: string): number {
+    let i = 0;
+    let j = 0;
+    let zeros = 0;
+
+    while (i < a.length && j < b.length) {
+      const x = a.charCodeAt(i);
+      const y = b.charCodeAt(j);
+
+      if (isDigit(x) && isDigit(y)) {
+        const runA = matchDigits(a, i);
+        const runB = matchDigits(b, j);
+        const valueA = runA.replace(/^0+/, "");
+        const valueB = runB.replace(/^0+/, "");
+
+        // Without leading zeros, a longer run is a larger number
+        if (valueA.length !== valueB.length) return valueA.length - valueB.length;
+        if (valueA !== valueB) return valueA < valueB ? -1 : 1;
+        if (zeros === 0) zeros = runA.length - runB.length;
+
+        i += runA.length;
+        j += runB.length;
+      } else if (x !== y) {
+        return x - y;
+      } else {
+        i++;
+        j++;
+      }
+    }
+
+    return a.length - i - (b.length - j) || zeros;
+  }
+
+  /** @internal */
+  private static withNulls<T>(compare: CompareFn<T>, nullOrder: number): CompareFn<T | null | undefined> {
+    if (typeof compare !== "function") {
+      throw new TypeError("Comparison function must be a function");
+    }
+    return (a, b) => {
+      const aNull = a === null || a === undefined;
+      const bNull = b === null || b === undefined;
+      if (aNull || bNull) {
+        return aNull === bNull ? 0 : aNull ? nullOrder : -nullOrder;
+      }
+      return compare(a, b);
+    };
+  }
+}
+
+/** @internal */
+function isDigit(code: number): boolean {
+  return code >= 48 && code <= 57;
+}
+
+/**
+ * Returns the run of ASCII digits starting at index
+ * @internal
+ */
+function matchDigits(text: string, index: number): string {
+  DIGIT_RUN.lastIndex = index;
+  return DIGIT_RUN.exec(text)![0];
+}
@@ -0,0 +1,28 @@
+/**
+ * Measurements of an algorithm run, shared by Sorting and Searching.
+ * Searching reports comparisons with every result; Sorting reports the
+ * full set when run through Sorting.instrumented.
+ */
+export interface Metrics {
+  /** Calls to the comparison function, plus key comparisons made directly by the radix sorts */
+  comparisons: number;
+  /** Exchanges of two elements */
+  swaps: number;
+  /** Single element writes other than swaps, such as insertion shifts, merge output and bucket distribution */
+  moves: number;
+  /** Deepest level of recursion reached, or 0 for algorithms that do not recurse */
+  maxDepth: number;
+  /** Wall-clock time in milliseconds */
+  elapsedMs: number;
+}
+
+/**
+ * The result of an instrumented run together with its metrics
+ * @template R The type of result
+ */
+export interface Instrumented<R> {
+  /** The value returned by the run */
+  result: R;
+  /** Measurements collected during the run */
+  metrics: Metrics;
+}
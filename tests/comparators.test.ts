@@ -0,0 +1,181 @@
+import { CompareFn, Comparators } from "../src/utils/comparators";
+import { Sorting } from "../src/algorithms/sort";
+import { Searching } from "../src/algorithms/search";
+import { PriorityQueue } from "../src/data-structures/queue";
+import { MaxHeap, MinHeap } from "../src/data-structures/heap";
+
+describe("Comparators", () => {
+  interface Person {
+    name: string;
+    age: number | null;
+  }
+
+  const people: Person[] = [
+    { name: "Cid", age: 30 },
+    { name: "ann", age: null },
+    { name: "Bob", age: 25 },
+    { name: "Ann", age: 30 },
+    { name: "Dee", age: undefined as unknown as null },
+  ];
+  const names = (sorted: Person[]) => sorted.map((person) => person.name);
+
+  describe("natural", () => {
+    it("should order numbers, strings and bigints", () => {
+      expect([3, -1, 2.5].sort(Comparators.natural)).toEqual([-1, 2.5, 3]);
+      expect(["b", "B", "a"].sort(Comparators.natural)).toEqual(["B", "a", "b"]);
+      expect([10n, -5n, 3n].sort(Comparators.natural)).toEqual([-5n, 3n, 10n]);
+      expect(Comparators.natural<number | bigint>(2, 10n)).toBeLessThan(0);
+    });
+
+    it("should order Dates by time", () => {
+      const later = new Date(2024, 5, 1);
+      const earlier = new Date(2020, 0, 1);
+
+      expect([later, earlier].sort(Comparators.natural)).toEqual([earlier, later]);
+      expect(Comparators.natural(new Date(0), new Date(0))).toBe(0);
+    });
+
+    it("should order NaN after every number and equal to itself", () => {
+      expect([NaN, 1, Infinity, -1].sort(Comparators.natural).slice(0, 3)).toEqual([-1, 1, Infinity]);
+      expect(Comparators.natural(NaN, NaN)).toBe(0);
+      expect(Comparators.natural(NaN, 0)).toBeGreaterThan(0);
+    });
+  });
+
+  describe("by", () => {
+    it("should compare by an extracted key", () => {
+      const byLength = Comparators.by((word: string) => word.length);
+      expect(["ccc", "a", "bb"].sort(byLength)).toEqual(["a", "bb", "ccc"]);
+    });
+
+    it("should accept a key comparator", () => {
+      const byNameDescending = Comparators.by((person: Person) => person.name, Comparators.reversed());
+      expect(names(Sorting.sort(people, byNameDescending))).toEqual(["ann", "Dee", "Cid", "Bob", "Ann"]);
+    });
+
+    it("should reject non-function arguments", () => {
+      expect(() => Comparators.by("name" as any)).toThrow("Key function must be a function");
+      expect(() => Comparators.by((x: number) => x, 1 as any)).toThrow("Comparison function must be a function");
+    });
+  });
+
+  describe("thenBy", () => {
+    it("should break ties with later comparators in order", () => {
+      const byAgeThenName = Comparators.thenBy<Person>(
+        Comparators.by((person) => person.age, Comparators.nullsLast()),
+        Comparators.by((person) => person.name)
+      );
+      expect(names(Sorting.sort(people, byAgeThenName))).toEqual(["Bob", "Ann", "Cid", "Dee", "ann"]);
+    });
+
+    it("should return 0 when every comparator ties", () => {
+      const compare = Comparators.thenBy<number>(() => 0, () => 0);
+      expect(compare(1, 2)).toBe(0);
+    });
+
+    it("should reject non-function arguments", () => {
+      expect(() => Comparators.thenBy(Comparators.natural, null as any)).toThrow(TypeError);
+    });
+  });
+
+  describe("reversed", () => {
+    it("should reverse natural order by default", () => {
+      expect([1, 3, 2].sort(Comparators.reversed())).toEqual([3, 2, 1]);
+    });
+
+    it("should reverse a given comparator", () => {
+      const longestFirst = Comparators.reversed(Comparators.by((word: string) => word.length));
+      expect(["a", "ccc", "bb"].sort(longestFirst)).toEqual(["ccc", "bb", "a"]);
+    });
+  });
+
+  describe("nullsFirst and nullsLast", () => {
+    const values = [3, null, 1, undefined, 2];
+
+    it("should place null and undefined first", () => {
+      const sorted = Sorting.sort(values, Comparators.nullsFirst<number>());
+      expect(sorted).toEqual([null, undefined, 1, 2, 3]);
+    });
+
+    it("should place null and undefined last", () => {
+      const sorted = Sorting.sort(values, Comparators.nullsLast<number>());
+      expect(sorted).toEqual([1, 2, 3, null, undefined]);
+    });
+
+    it("should keep nulls in place when reversing the wrapped comparator", () => {
+      const sorted = Sorting.sort(values, Comparators.nullsLast(Comparators.reversed<number>()));
+      expect(sorted).toEqual([3, 2, 1, null, undefined]);
+    });
+  });
+
+  describe("localeCompare", () => {
+    it("should order strings by locale conventions", () => {
+      expect(["z", "ä", "a"].sort(Comparators.localeCompare("de"))).toEqual(["a", "ä", "z"]);
+      expect(["z", "ä", "a"].sort(Comparators.localeCompare("sv"))).toEqual(["a", "z", "ä"]);
+    });
+
+    it("should accept collator options", () => {
+      const compare = Comparators.localeCompare("en", { sensitivity: "base" });
+      expect(compare("a", "A")).toBe(0);
+      expect(compare("a", "b")).toBeLessThan(0);
+    });
+
+    it("should reject invalid locales", () => {
+      expect(() => Comparators.localeCompare("not a locale!")).toThrow(RangeError);
+    });
+  });
+
+  describe("naturalStringOrder", () => {
+    it("should order digit runs by numeric value", () => {
+      const files = ["file10.txt", "file2.txt", "file1.txt", "file20.txt", "file3.txt"];
+      expect(files.sort(Comparators.naturalStringOrder)).toEqual([
+        "file1.txt",
+        "file2.txt",
+        "file3.txt",
+        "file10.txt",
+        "file20.txt",
+      ]);
+    });
+
+    it("should compare several digit runs and plain text", () => {
+      const versions = ["v1.10.0", "v1.2.10", "v1.2.9", "v0.9", "beta", "alpha2", "alpha10"];
+      expect(versions.sort(Comparators.naturalStringOrder)).toEqual([
+        "alpha2",
+        "alpha10",
+        "beta",
+        "v0.9",
+        "v1.2.9",
+        "v1.2.10",
+        "v1.10.0",
+      ]);
+    });
+
+    it("should order prefixes first and numbers longer than 2^53 correctly", () => {
+      expect(Comparators.naturalStringOrder("file", "file1")).toBeLessThan(0);
+      expect(Comparators.naturalStringOrder("a", "a")).toBe(0);
+      expect(Comparators.naturalStringOrder("id9007199254740993", "id9007199254740992")).toBeGreaterThan(0);
+    });
+
+    it("should break ties on leading zeros consistently", () => {
+      expect(Comparators.naturalStringOrder("file01", "file1")).toBeGreaterThan(0);
+      expect(Comparators.naturalStringOrder("file1", "file01")).toBeLessThan(0);
+      expect(Comparators.naturalStringOrder("a01b2", "a1b02")).toBeGreaterThan(0);
+      expect(["x002", "x2", "x02"].sort(Comparators.naturalStringOrder)).toEqual(["x2", "x02", "x002"]);
+    });
+  });
+
+  describe("default ordering", () => {
+    it("should order strings by default in every module", () => {
+      const words = ["pear", "apple", "fig"];
+      const compare: CompareFn<string> = Comparators.natural;
+
+      expect(Sorting.sort(words)).toEqual(["apple", "fig", "pear"]);
+      expect(Sorting.quickSort(words)).toEqual(["apple", "fig", "pear"]);
+      expect(Searching.binarySearch(["apple", "fig", "pear"], "fig").index).toBe(1);
+      expect(PriorityQueue.from(words).peek()).toBe("apple");
+      expect(MinHeap.from(words).peek()).toBe("apple");
+      expect(MaxHeap.from(words).peek()).toBe("pear");
+      expect(compare("apple", "fig")).toBeLessThan(0);
+    });
+  });
+});
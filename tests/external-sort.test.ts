@@ -0,0 +1,200 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ExternalSort } from "../src/algorithms/external-sort";
+import { Comparators } from "../src/utils/comparators";
+
+describe("ExternalSort", () => {
+  interface LogEntry {
+    timestamp: number;
+    message: string;
+  }
+
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "external-sort-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const results: T[] = [];
+    for await (const value of iterable) {
+      results.push(value);
+    }
+    return results;
+  };
+
+  // Deterministic shuffled timestamps in [0, 100), each repeated, so failures can be reproduced
+  async function* entries(count: number): AsyncGenerator<LogEntry> {
+    for (let i = 0; i < count; i++) {
+      yield { timestamp: (i * 7919) % 100, message: `entry ${i}` };
+    }
+  }
+
+  const byTimestamp = Comparators.by((entry: LogEntry) => entry.timestamp);
+
+  // Records the run file streams opened by the sort, and the most open at once
+  const trackReadStreams = () => {
+    // The namespace import above is a read-only view, so spy on the module object itself
+    const fsModule = jest.requireActual<typeof fs>("fs");
+    const createReadStream = fsModule.createReadStream;
+    const tracked = { streams: [] as fs.ReadStream[], maxOpen: 0, restore: () => spy.mockRestore() };
+    const spy = jest.spyOn(fsModule, "createReadStream").mockImplementation((...args) => {
+      const stream = createReadStream(...args);
+      tracked.streams.push(stream);
+      tracked.maxOpen = Math.max(tracked.maxOpen, tracked.streams.filter((s) => !s.closed).length);
+      return stream;
+    });
+    return tracked;
+  };
+
+  describe("sorting", () => {
+    it("should sort input that fits in memory without spilling", async () => {
+      const sorted = await collect(ExternalSort.sort([5, 3, 9, 1], undefined, { tempDir }));
+      expect(sorted).toEqual([1, 3, 5, 9]);
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+
+    it("should spill sorted runs and merge them", async () => {
+      const input = Array.from({ length: 2000 }, (_, i) => (i * 7919) % 10007);
+      const output = ExternalSort.sort(input, undefined, { tempDir, memoryBudget: 5000 });
+
+      const first = await output.next();
+      const [runDirectory] = fs.readdirSync(tempDir);
+      expect(fs.readdirSync(path.join(tempDir, runDirectory)).length).toBeGreaterThan(10);
+
+      const rest = await collect(output);
+      expect([first.value, ...rest]).toEqual([...input].sort((a, b) => a - b));
+    });
+
+    it("should count record overhead as well as text toward the memory budget", async () => {
+      // 1000 one-character lines are 2000 bytes of text, but far more in memory
+      const input = Array.from({ length: 1000 }, (_, i) => i % 10);
+      const output = ExternalSort.sort(input, undefined, { tempDir, memoryBudget: 4000 });
+
+      const first = await output.next();
+      expect(fs.readdirSync(tempDir)).toHaveLength(1);
+
+      const rest = await collect(output);
+      expect([first.value, ...rest]).toEqual([...input].sort((a, b) => a - b));
+    });
+
+    it("should keep records with equal keys in input order across runs", async () => {
+      const input: LogEntry[] = [];
+      for await (const entry of entries(3000)) {
+        input.push(entry);
+      }
+      const sorted = await collect(ExternalSort.sort(input, byTimestamp, { tempDir, memoryBudget: 4096 }));
+
+      expect(sorted).toEqual([...input].sort((a, b) => a.timestamp - b.timestamp));
+    });
+
+    it("should accept async iterables and strings", async () => {
+      const output = ExternalSort.sort(entries(500), byTimestamp, { tempDir, memoryBudget: 2048 });
+      const timestamps = (await collect(output)).map((entry) => entry.timestamp);
+      const lines = await collect(ExternalSort.sort(["b\nx", "a", "c"], undefined, { tempDir, memoryBudget: 4 }));
+
+      expect(timestamps).toHaveLength(500);
+      expect(timestamps).toEqual([...timestamps].sort((a, b) => a - b));
+      expect(lines).toEqual(["a", "b\nx", "c"]);
+    });
+
+    it("should use custom serialization", async () => {
+      const dates = [new Date(2024, 2, 1), new Date(2021, 0, 1), new Date(2023, 6, 1)];
+      const sorted = await collect(
+        ExternalSort.sort(dates, undefined, {
+          tempDir,
+          memoryBudget: 1,
+          serialize: (date) => date.toISOString(),
+          deserialize: (line) => new Date(line),
+        })
+      );
+
+      expect(sorted).toEqual([dates[1], dates[2], dates[0]]);
+    });
+  });
+
+  describe("temporary files", () => {
+    it("should remove runs once the output is exhausted", async () => {
+      await collect(ExternalSort.sort(entries(1000), byTimestamp, { tempDir, memoryBudget: 1024 }));
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+
+    it("should remove runs when iteration stops early", async () => {
+      for await (const entry of ExternalSort.sort(entries(1000), byTimestamp, { tempDir, memoryBudget: 1024 })) {
+        expect(entry.timestamp).toBeGreaterThanOrEqual(0);
+        break;
+      }
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+
+    it("should close every run file when iteration stops early", async () => {
+      const { streams, restore } = trackReadStreams();
+
+      try {
+        for await (const entry of ExternalSort.sort(entries(1000), byTimestamp, { tempDir, memoryBudget: 1024 })) {
+          expect(entry.timestamp).toBeGreaterThanOrEqual(0);
+          break;
+        }
+      } finally {
+        restore();
+      }
+
+      expect(streams.length).toBeGreaterThan(1);
+      expect(streams.every((stream) => stream.destroyed && stream.closed)).toBe(true);
+    });
+
+    it("should merge more runs than can be open at once in several passes", async () => {
+      const tracked = trackReadStreams();
+      let sorted: LogEntry[];
+      try {
+        // Every record becomes its own run: 1000 runs, merged 64 at a time
+        sorted = await collect(ExternalSort.sort(entries(1000), byTimestamp, { tempDir, memoryBudget: 1 }));
+      } finally {
+        tracked.restore();
+      }
+
+      const input: LogEntry[] = [];
+      for await (const entry of entries(1000)) {
+        input.push(entry);
+      }
+      expect(sorted).toEqual([...input].sort((a, b) => a.timestamp - b.timestamp));
+      expect(tracked.streams.length).toBeGreaterThan(1000);
+      expect(tracked.maxOpen).toBeLessThanOrEqual(64);
+      expect(tracked.streams.every((stream) => stream.closed)).toBe(true);
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+
+    it("should remove runs when the source throws", async () => {
+      async function* failing(): AsyncGenerator<number> {
+        for (let i = 0; i < 100; i++) yield i;
+        throw new Error("read failed");
+      }
+
+      await expect(collect(ExternalSort.sort(failing(), undefined, { tempDir, memoryBudget: 10 }))).rejects.toThrow(
+        "read failed"
+      );
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+    });
+  });
+
+  describe("error handling", () => {
+    it("should validate options before iteration starts", () => {
+      expect(() => ExternalSort.sort([1], undefined, { memoryBudget: 0 })).toThrow(
+        "Memory budget must be a positive number"
+      );
+      expect(() => ExternalSort.sort([1], undefined, { memoryBudget: NaN })).toThrow(Error);
+      expect(() => ExternalSort.sort([1], "asc" as any)).toThrow("Comparison function must be a function");
+      expect(() => ExternalSort.sort([1], undefined, { serialize: null as any })).toThrow(TypeError);
+    });
+
+    it("should reject serialized records spanning several lines", async () => {
+      const output = ExternalSort.sort(["a", "b"], undefined, { tempDir, serialize: (value) => `${value}\n` });
+      await expect(collect(output)).rejects.toThrow("Serialized records must be single lines of text");
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { MinHeap, MaxHeap, CustomHeap, BinaryHeap } from "../src/data-structures/heap";
+import { MinHeap, MaxHeap, CustomHeap, BinaryHeap, BoundedHeap } from "../src/data-structures/heap";
 
 describe("MinHeap", () => {
   describe("basic operations", () => {
@@ -235,3 +235,57 @@ describe("BinaryHeap", () => {
     });
   });
 });
+
+describe("BoundedHeap", () => {
+  describe("basic operations", () => {
+    it("should retain the largest elements up to its capacity", () => {
+      const heap = new BoundedHeap<number>(3).add(5).add(1).add(9).add(3).add(7);
+      expect(heap.size()).toBe(3);
+      expect(heap.peek()).toBe(5);
+      expect([...heap]).toEqual([5, 7, 9]);
+    });
+
+    it("should return the same heap when an element is not retained", () => {
+      const heap = BoundedHeap.from([5, 7, 9], 3);
+      expect(heap.isFull()).toBe(true);
+      expect(heap.add(2)).toBe(heap);
+      expect(heap.add(5)).toBe(heap);
+    });
+
+    it("should not modify the original heap", () => {
+      const heap = BoundedHeap.from([5, 7, 9], 3);
+      const heap2 = heap.add(8);
+      expect([...heap]).toEqual([5, 7, 9]);
+      expect([...heap2]).toEqual([7, 8, 9]);
+    });
+
+    it("should remove the smallest retained element", () => {
+      const { element, heap } = BoundedHeap.from([4, 8, 6], 2).remove();
+      expect(element).toBe(6);
+      expect([...heap]).toEqual([8]);
+      expect(heap.isFull()).toBe(false);
+    });
+
+    it("should retain nothing with a capacity of zero", () => {
+      const heap = BoundedHeap.from([1, 2, 3], 0);
+      expect(heap.isEmpty()).toBe(true);
+      expect(heap.add(4)).toBe(heap);
+    });
+  });
+
+  describe("custom comparison", () => {
+    it("should retain the smallest elements under a reversed comparison", () => {
+      const heap = BoundedHeap.from([5, 1, 9, 3, 7], 2, (a, b) => b - a);
+      expect([...heap]).toEqual([3, 1]);
+    });
+  });
+
+  describe("error handling", () => {
+    it("should reject invalid capacities and comparators", () => {
+      expect(() => new BoundedHeap(-1)).toThrow("Capacity must be a non-negative integer");
+      expect(() => new BoundedHeap(1.5)).toThrow(Error);
+      expect(() => new BoundedHeap(1, "asc" as any)).toThrow("Comparison function must be a function");
+      expect(() => new BoundedHeap<number>(1).add(null as any)).toThrow(TypeError);
+    });
+  });
+});
@@ -1,6 +1,14 @@
-import { LinkedList, DoublyLinkedList } from "../src/data-structures/linkedlist";
+import { LinkedList, DoublyLinkedList, LRUCache } from "../src/data-structures/linkedlist";
 
 describe("LinkedList", () => {
+  const nodes = (list: LinkedList<number>) => {
+    const result: unknown[] = [];
+    for (let node = (list as any).head; node !== null; node = node.next) {
+      result.push(node);
+    }
+    return result;
+  };
+
   describe("basic operations", () => {
     it("should create an empty list", () => {
       const list = new LinkedList<number>();
@@ -110,6 +118,211 @@ describe("LinkedList", () => {
     });
   });
 
+  describe("structural sharing", () => {
+    it("should share the tail on prepend", () => {
+      const list = LinkedList.from([1, 2, 3]);
+      expect(nodes(list.prepend(0))[1]).toBe(nodes(list)[0]);
+    });
+
+    it("should share the nodes after a removed element", () => {
+      const list = LinkedList.from([1, 2, 3, 4, 5]);
+      const list2 = list.remove(2);
+
+      expect([...list2]).toEqual([1, 3, 4, 5]);
+      expect(list2.size()).toBe(4);
+      expect(nodes(list2)[1]).toBe(nodes(list)[2]);
+      expect(nodes(list2)[0]).not.toBe(nodes(list)[0]);
+    });
+
+    it("should share the appended list on concat", () => {
+      const left = LinkedList.from([1, 2]);
+      const right = LinkedList.from([3, 4]);
+      const joined = left.concat(right);
+
+      expect([...joined]).toEqual([1, 2, 3, 4]);
+      expect(joined.size()).toBe(4);
+      expect(nodes(joined)[2]).toBe(nodes(right)[0]);
+      expect([...left]).toEqual([1, 2]); // Original unchanged
+      expect(left.concat(new LinkedList<number>())).toBe(left);
+      expect(new LinkedList<number>().concat(right)).toBe(right);
+    });
+  });
+
+  describe("builder", () => {
+    it("should build lists in order", () => {
+      const builder = LinkedList.builder<number>().append(1).appendAll([2, 3]);
+
+      expect(builder.size()).toBe(3);
+      expect([...builder.build()]).toEqual([1, 2, 3]);
+      expect(LinkedList.builder<number>().build().isEmpty()).toBe(true);
+    });
+
+    it("should not change built lists when appending afterwards", () => {
+      const builder = LinkedList.builder<number>().appendAll([1, 2]);
+      const first = builder.build();
+      const second = builder.append(3).build();
+
+      expect([...first]).toEqual([1, 2]);
+      expect(first.size()).toBe(2);
+      expect([...second]).toEqual([1, 2, 3]);
+    });
+
+    it("should build lists in linear time without copying on build", () => {
+      // Copies after build() go through append too, so its calls count every node made
+      const appendsToBuild = (count: number) => {
+        const builder = LinkedList.builder<number>();
+        const append = jest.spyOn(builder, "append");
+        builder.appendAll(Array.from({ length: count }, (_, i) => i));
+        const first = builder.build();
+        const second = builder.build();
+
+        expect(first.size()).toBe(count);
+        expect([...second]).toEqual([...first]);
+        return append.mock.calls.length;
+      };
+
+      expect(appendsToBuild(10_000)).toBe(10_000);
+      expect(appendsToBuild(100_000)).toBe(100_000);
+      expect(LinkedList.from(Array.from({ length: 100_000 }, (_, i) => i)).size()).toBe(100_000);
+    });
+  });
+
+  describe("sequence operations", () => {
+    const list = LinkedList.from([1, 2, 3, 4, 5]);
+
+    it("should access elements by index", () => {
+      expect(list.at(0)).toBe(1);
+      expect(list.at(4)).toBe(5);
+      expect(list.at(-1)).toBe(5);
+      expect(list.at(-5)).toBe(1);
+      expect(list.at(5)).toBeUndefined();
+      expect(list.at(-6)).toBeUndefined();
+      expect(list.indexOf(3)).toBe(2);
+      expect(list.indexOf(9)).toBe(-1);
+    });
+
+    it("should search with predicates", () => {
+      expect(list.find((n) => n > 2)).toBe(3);
+      expect(list.find((n) => n > 5)).toBeUndefined();
+      expect(list.some((n) => n % 2 === 0)).toBe(true);
+      expect(list.every((n) => n > 0)).toBe(true);
+      expect(list.every((_, i) => i < 4)).toBe(false);
+      expect(new LinkedList<number>().every(() => false)).toBe(true);
+    });
+
+    it("should map, filter and reduce", () => {
+      expect([...list.map((n, i) => n * 10 + i)]).toEqual([10, 21, 32, 43, 54]);
+      expect([...list.filter((n) => n % 2 === 1)]).toEqual([1, 3, 5]);
+      expect(list.filter((n) => n % 2 === 1).size()).toBe(3);
+      expect(list.filter(() => true)).toBe(list);
+      expect(list.reduce((sum, n) => sum + n, 0)).toBe(15);
+      expect(list.reduce((acc, n, i) => acc + `${i}:${n} `, "")).toBe("0:1 1:2 2:3 3:4 4:5 ");
+      expect([...list]).toEqual([1, 2, 3, 4, 5]); // Original unchanged
+    });
+
+    it("should insert and remove by index", () => {
+      expect([...list.insertAt(0, 0)]).toEqual([0, 1, 2, 3, 4, 5]);
+      expect([...list.insertAt(2, 9)]).toEqual([1, 2, 9, 3, 4, 5]);
+      expect([...list.insertAt(5, 6)]).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(list.insertAt(5, 6).size()).toBe(6);
+      expect(() => list.insertAt(6, 0)).toThrow(RangeError);
+      expect(() => list.insertAt(-1, 0)).toThrow(RangeError);
+
+      expect([...list.removeAt(0)]).toEqual([2, 3, 4, 5]);
+      expect([...list.removeAt(4)]).toEqual([1, 2, 3, 4]);
+      expect(list.removeAt(2).size()).toBe(4);
+      expect(list.removeAt(5)).toBe(list);
+    });
+
+    it("should slice, take and drop", () => {
+      expect([...list.slice(1, 3)]).toEqual([2, 3]);
+      expect([...list.slice(-2)]).toEqual([4, 5]);
+      expect([...list.slice(1, -1)]).toEqual([2, 3, 4]);
+      expect(list.slice(3, 1).isEmpty()).toBe(true);
+      expect(list.slice()).toBe(list);
+      expect([...list.take(2)]).toEqual([1, 2]);
+      expect(list.take(10).size()).toBe(5);
+      expect(list.take(-1).isEmpty()).toBe(true);
+      expect([...list.drop(3)]).toEqual([4, 5]);
+      expect(list.drop(3).size()).toBe(2);
+      expect(list.drop(9).isEmpty()).toBe(true);
+    });
+
+    it("should share nodes with the original where possible", () => {
+      const head = (l: LinkedList<number>) => (l as any).head;
+      const third = head(list).next.next;
+
+      expect(head(list.drop(2))).toBe(third);
+      expect(head(list.insertAt(1, 9)).next.next).toBe(head(list).next);
+      expect(head(list.filter((n) => n !== 2)).next).toBe(third);
+    });
+
+    it("should zip and convert to arrays", () => {
+      const letters = LinkedList.from(["a", "b", "c"]);
+
+      expect([...list.zip(letters)]).toEqual([
+        [1, "a"],
+        [2, "b"],
+        [3, "c"],
+      ]);
+      expect(list.zip(letters).size()).toBe(3);
+      expect(list.toArray()).toEqual([1, 2, 3, 4, 5]);
+      expect(new LinkedList<number>().toArray()).toEqual([]);
+    });
+  });
+
+  describe("custom equality", () => {
+    interface User {
+      id: number;
+      name: string;
+    }
+    const byId = (a: User, b: User) => a.id === b.id;
+    const users = [
+      { id: 1, name: "ann" },
+      { id: 2, name: "bob" },
+      { id: 1, name: "ann (copy)" },
+    ];
+
+    it("should use the equality given at construction", () => {
+      const list = LinkedList.from(users, byId);
+
+      expect(list.contains({ id: 2, name: "" })).toBe(true);
+      expect(list.indexOf({ id: 1, name: "" })).toBe(0);
+      expect([...list.remove({ id: 1, name: "" })].map(({ name }) => name)).toEqual(["bob", "ann (copy)"]);
+      const grown = list.prepend({ id: 3, name: "cy" }).append({ id: 4, name: "di" });
+      expect(grown.contains({ id: 2, name: "" })).toBe(true);
+      expect(new LinkedList<User>(byId).prepend(users[0]).contains({ id: 1, name: "" })).toBe(true);
+    });
+
+    it("should accept an equality per call", () => {
+      const list = LinkedList.from(users);
+
+      expect(list.contains({ id: 2, name: "bob" })).toBe(false);
+      expect(list.contains({ id: 2, name: "bob" }, byId)).toBe(true);
+      expect(list.remove({ id: 2, name: "" }, byId).size()).toBe(2);
+    });
+
+    it("should keep the equality through transformations", () => {
+      const list = LinkedList.from(users, byId);
+
+      expect(list.filter(({ id }) => id > 0).reverse().slice(1).contains({ id: 1, name: "" })).toBe(true);
+      expect(new LinkedList<User>(byId).concat(list).contains({ id: 2, name: "" })).toBe(true);
+    });
+
+    it("should remove every match", () => {
+      const list = LinkedList.from(users, byId);
+
+      expect([...list.removeAll({ id: 1, name: "" })].map(({ name }) => name)).toEqual(["bob"]);
+      expect(list.removeAll({ id: 9, name: "" })).toBe(list);
+      expect(LinkedList.from([1, 2, 1, 3, 1]).removeAll(1).toArray()).toEqual([2, 3]);
+      expect(LinkedList.from([1, 2, 3, 4]).removeWhere((n) => n % 2 === 0).toArray()).toEqual([1, 3]);
+    });
+
+    it("should reject an equality that is not a function", () => {
+      expect(() => new LinkedList<number>("===" as any)).toThrow(TypeError);
+    });
+  });
+
   describe("static factory methods", () => {
     it("should create from array", () => {
       const list = LinkedList.from([1, 2, 3]);
@@ -217,6 +430,116 @@ describe("DoublyLinkedList", () => {
     });
   });
 
+  describe("builder and concatenation", () => {
+    it("should build lists with working links", () => {
+      const list = DoublyLinkedList.builder<number>().append(1).appendAll([2, 3]).build();
+
+      expect([...list]).toEqual([1, 2, 3]);
+      expect([...list.reverseIterator()]).toEqual([3, 2, 1]);
+      expect(list.last()).toBe(3);
+    });
+
+    it("should not change built lists when appending afterwards", () => {
+      const builder = DoublyLinkedList.builder<number>().appendAll([1, 2]);
+      const first = builder.build();
+      const second = builder.append(3).build();
+
+      expect([...first]).toEqual([1, 2]);
+      expect([...first.reverseIterator()]).toEqual([2, 1]);
+      expect([...second.reverseIterator()]).toEqual([3, 2, 1]);
+    });
+
+    it("should concatenate lists", () => {
+      const left = DoublyLinkedList.from([1, 2]);
+      const joined = left.concat(DoublyLinkedList.from([3, 4]));
+
+      expect([...joined]).toEqual([1, 2, 3, 4]);
+      expect([...joined.reverseIterator()]).toEqual([4, 3, 2, 1]);
+      expect(joined.size()).toBe(4);
+      expect(left.last()).toBe(2); // Original unchanged
+      expect(left.concat(new DoublyLinkedList<number>())).toBe(left);
+    });
+
+    it("should build 100k elements in linear time", () => {
+      const list = DoublyLinkedList.from(Array.from({ length: 100_000 }, (_, i) => i));
+
+      expect(list.size()).toBe(100_000);
+      expect(list.last()).toBe(99_999);
+    });
+  });
+
+  describe("sequence operations", () => {
+    const list = DoublyLinkedList.from([1, 2, 3, 4, 5]);
+    const backwards = <T>(l: DoublyLinkedList<T>) => [...l.reverseIterator()];
+
+    it("should access and search elements", () => {
+      expect(list.at(1)).toBe(2);
+      expect(list.at(3)).toBe(4);
+      expect(list.at(-1)).toBe(5);
+      expect(list.at(5)).toBeUndefined();
+      expect(list.indexOf(4)).toBe(3);
+      expect(list.find((n) => n > 3)).toBe(4);
+      expect(list.some((n) => n > 4)).toBe(true);
+      expect(list.every((n) => n > 1)).toBe(false);
+    });
+
+    it("should map, filter and reduce with valid links", () => {
+      const doubled = list.map((n) => n * 2);
+      const odd = list.filter((n) => n % 2 === 1);
+
+      expect(backwards(doubled)).toEqual([10, 8, 6, 4, 2]);
+      expect(backwards(odd)).toEqual([5, 3, 1]);
+      expect(odd.last()).toBe(5);
+      expect(list.filter(() => true)).toBe(list);
+      expect(list.reduce((product, n) => product * n, 1)).toBe(120);
+    });
+
+    it("should insert and remove by index", () => {
+      expect(backwards(list.insertAt(5, 6))).toEqual([6, 5, 4, 3, 2, 1]);
+      expect([...list.insertAt(1, 9)]).toEqual([1, 9, 2, 3, 4, 5]);
+      expect(() => list.insertAt(7, 0)).toThrow(RangeError);
+      expect(backwards(list.removeAt(4))).toEqual([4, 3, 2, 1]);
+      expect(list.removeAt(4).last()).toBe(4);
+      expect(list.removeAt(-1)).toBe(list);
+    });
+
+    it("should slice, take, drop, zip and convert", () => {
+      expect(backwards(list.slice(1, 3))).toEqual([3, 2]);
+      expect(list.slice(-2).first()).toBe(4);
+      expect([...list.take(2)]).toEqual([1, 2]);
+      expect(list.drop(4).last()).toBe(5);
+      expect(list.slice(4, 2).isEmpty()).toBe(true);
+      expect(backwards(list.zip(DoublyLinkedList.from(["a", "b"])))).toEqual([
+        [2, "b"],
+        [1, "a"],
+      ]);
+      expect(list.toArray()).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
+
+  describe("custom equality", () => {
+    const byLength = (a: string, b: string) => a.length === b.length;
+
+    it("should use the equality given at construction or per call", () => {
+      const list = DoublyLinkedList.from(["a", "bb", "ccc"], byLength);
+
+      expect(list.contains("zz")).toBe(true);
+      expect(list.remove("zz").toArray()).toEqual(["a", "ccc"]);
+      expect(list.remove("zz").last()).toBe("ccc");
+      expect(DoublyLinkedList.from(["a", "bb"]).contains("zz")).toBe(false);
+      expect(DoublyLinkedList.from(["a", "bb"]).contains("zz", byLength)).toBe(true);
+      expect(list.append("dddd").reverse().contains("y")).toBe(true);
+    });
+
+    it("should remove every match", () => {
+      const list = DoublyLinkedList.from(["a", "bb", "c", "dd"], byLength);
+
+      expect(list.removeAll("x").toArray()).toEqual(["bb", "dd"]);
+      expect([...list.removeWhere((s) => s < "c").reverseIterator()]).toEqual(["dd", "c"]);
+      expect(list.removeAll("xyz")).toBe(list);
+    });
+  });
+
   describe("bidirectional iteration", () => {
     it("should iterate forward correctly", () => {
       const list = DoublyLinkedList.from([1, 2, 3]);
@@ -265,3 +588,145 @@ describe("DoublyLinkedList", () => {
     });
   });
 });
+
+describe("LRUCache", () => {
+  describe("basic operations", () => {
+    it("should store and retrieve values", () => {
+      const cache = new LRUCache<string, number>(3).set("a", 1).set("b", 2);
+
+      expect(cache.get("a")).toBe(1);
+      expect(cache.peek("b")).toBe(2);
+      expect(cache.get("c")).toBeUndefined();
+      expect(cache.has("b")).toBe(true);
+      expect(cache.size()).toBe(2);
+    });
+
+    it("should update existing keys without growing", () => {
+      const cache = new LRUCache<string, number>(2).set("a", 1).set("a", 10);
+
+      expect(cache.get("a")).toBe(10);
+      expect(cache.size()).toBe(1);
+    });
+
+    it("should delete and clear entries", () => {
+      const cache = new LRUCache<string, number>(3).set("a", 1).set("b", 2).set("c", 3);
+
+      expect(cache.delete("b")).toBe(true);
+      expect(cache.delete("b")).toBe(false);
+      expect([...cache]).toEqual([
+        ["c", 3],
+        ["a", 1],
+      ]);
+      cache.clear();
+      expect(cache.size()).toBe(0);
+      expect([...cache.set("d", 4)]).toEqual([["d", 4]]);
+    });
+
+    it("should reject invalid capacities and TTLs", () => {
+      expect(() => new LRUCache(0)).toThrow("Capacity must be a positive integer");
+      expect(() => new LRUCache(NaN)).toThrow("Capacity must be a positive integer");
+      expect(() => new LRUCache(2.5)).toThrow("Capacity must be a positive integer");
+      expect(() => new LRUCache(1, { ttl: 0 })).toThrow("TTL must be a positive number");
+      expect(() => new LRUCache<string, number>(1).set("a", 1, -5)).toThrow(Error);
+    });
+  });
+
+  describe("eviction", () => {
+    it("should evict the least recently used entry", () => {
+      const evicted: [string, number, string][] = [];
+      const cache = new LRUCache<string, number>(2, {
+        onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+      });
+
+      cache.set("a", 1).set("b", 2);
+      cache.get("a");
+      cache.set("c", 3);
+
+      expect(cache.has("b")).toBe(false);
+      expect([...cache]).toEqual([
+        ["c", 3],
+        ["a", 1],
+      ]);
+      expect(evicted).toEqual([["b", 2, "capacity"]]);
+    });
+
+    it("should not change recency on peek or has", () => {
+      const cache = new LRUCache<string, number>(2).set("a", 1).set("b", 2);
+
+      cache.peek("a");
+      cache.has("a");
+      cache.set("c", 3);
+
+      expect(cache.has("a")).toBe(false);
+      expect(cache.has("b")).toBe(true);
+    });
+
+    it("should not call the callback on delete or clear", () => {
+      const onEvict = jest.fn();
+      const cache = new LRUCache<string, number>(2, { onEvict }).set("a", 1).set("b", 2);
+
+      cache.delete("a");
+      cache.clear();
+      expect(onEvict).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("expiry", () => {
+    let time = 0;
+    const now = () => time;
+
+    beforeEach(() => {
+      time = 0;
+    });
+
+    it("should expire entries after the default TTL", () => {
+      const onEvict = jest.fn();
+      const cache = new LRUCache<string, number>(3, { ttl: 100, now, onEvict }).set("a", 1);
+
+      time = 99;
+      expect(cache.get("a")).toBe(1);
+      time = 100;
+      expect(cache.get("a")).toBeUndefined();
+      expect(cache.size()).toBe(0);
+      expect(onEvict).toHaveBeenCalledWith("a", 1, "expired");
+    });
+
+    it("should honour per-entry TTLs", () => {
+      const cache = new LRUCache<string, number>(3, { ttl: 100, now })
+        .set("short", 1, 10)
+        .set("default", 2)
+        .set("forever", 3, Infinity);
+
+      time = 50;
+      expect(cache.peek("short")).toBeUndefined();
+      expect(cache.peek("default")).toBe(2);
+      time = 1e9;
+      expect(cache.has("default")).toBe(false);
+      expect(cache.get("forever")).toBe(3);
+    });
+
+    it("should restart the TTL when a key is set again", () => {
+      const cache = new LRUCache<string, number>(1, { ttl: 100, now }).set("a", 1);
+
+      time = 80;
+      cache.set("a", 2);
+      time = 150;
+      expect(cache.get("a")).toBe(2);
+    });
+
+    it("should prune expired entries and skip them when iterating", () => {
+      const onEvict = jest.fn();
+      const cache = new LRUCache<string, number>(3, { now, onEvict })
+        .set("a", 1, 10)
+        .set("b", 2)
+        .set("c", 3, 10);
+
+      time = 20;
+      expect([...cache]).toEqual([["b", 2]]);
+      expect(cache.size()).toBe(3);
+      expect(cache.prune()).toBe(2);
+      expect(cache.size()).toBe(1);
+      expect(onEvict).toHaveBeenCalledTimes(2);
+    });
+  });
+});
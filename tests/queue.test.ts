@@ -80,6 +80,101 @@ describe("Deque", () => {
       expect(deque.isEmpty()).toBe(true);
     });
   });
+
+  describe("persistence", () => {
+    it("should leave earlier versions unchanged after many operations", () => {
+      const versions: Deque<number>[] = [new Deque<number>()];
+      const expected: number[][] = [[]];
+
+      for (let i = 0; i < 500; i++) {
+        const prev = versions[versions.length - 1];
+        const model = expected[expected.length - 1];
+        switch (i % 5) {
+          case 0:
+            versions.push(prev.pushFront(i));
+            expected.push([i, ...model]);
+            break;
+          case 1:
+          case 2:
+            versions.push(prev.pushBack(i));
+            expected.push([...model, i]);
+            break;
+          case 3:
+            versions.push(prev.popFront().deque);
+            expected.push(model.slice(1));
+            break;
+          default:
+            versions.push(prev.popBack().deque);
+            expected.push(model.slice(0, -1));
+        }
+      }
+
+      versions.forEach((deque, i) => {
+        expect([...deque]).toEqual(expected[i]);
+        expect(deque.size()).toBe(expected[i].length);
+        expect(deque.peekFront()).toBe(expected[i][0]);
+        expect(deque.peekBack()).toBe(expected[i][expected[i].length - 1]);
+      });
+    });
+
+    it("should support branching from a shared version", () => {
+      const base = Deque.from([1, 2, 3, 4]);
+      const left = base.popFront().deque.pushBack(5);
+      const right = base.popBack().deque.pushFront(0);
+
+      expect([...base]).toEqual([1, 2, 3, 4]);
+      expect([...left]).toEqual([2, 3, 4, 5]);
+      expect([...right]).toEqual([0, 1, 2, 3]);
+    });
+
+    it("should drain from either end after filling the other", () => {
+      const deque = Deque.from([1, 2, 3, 4, 5, 6]);
+      const drained: (number | undefined)[] = [];
+      let current = deque;
+
+      while (!current.isEmpty()) {
+        const { element, deque: next } = current.popBack();
+        drained.push(element);
+        current = next;
+      }
+
+      expect(drained).toEqual([6, 5, 4, 3, 2, 1]);
+      expect([...deque]).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it("should process 100k items in linear time", () => {
+      let deque = new Deque<number>();
+      for (let i = 0; i < 100000; i++) {
+        deque = i % 2 === 0 ? deque.pushBack(i) : deque.pushFront(i);
+      }
+
+      let count = 0;
+      while (!deque.isEmpty()) {
+        deque = count % 2 === 0 ? deque.popFront().deque : deque.popBack().deque;
+        count++;
+      }
+
+      expect(count).toBe(100000);
+    });
+
+    it("should keep rebalancing cheap when one version is reused", () => {
+      // Pushing only to the back, this is the last version before the back
+      // stack outgrows the front one: popFront on it must rebalance
+      let deque = new Deque<number>();
+      for (let i = 0; i < 131069; i++) {
+        deque = deque.pushBack(i);
+      }
+
+      // Copying 131k elements on each of these calls would exceed the test timeout
+      const results = Array.from({ length: 2000 }, () => deque.popFront());
+      const ends = results.map(({ element, deque }) => [element, deque.peekFront(), deque.peekBack()]);
+
+      expect(ends.every(([first, front, back]) => first === 0 && front === 1 && back === 131068)).toBe(true);
+      expect([...results[0].deque]).toEqual(Array.from({ length: 131068 }, (_, i) => i + 1));
+      expect([...results[1].deque.popBack().deque].slice(-2)).toEqual([131066, 131067]);
+      expect([...deque]).toHaveLength(131069);
+    });
+  });
 });
 
 describe("CircularQueue", () => {
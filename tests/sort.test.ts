@@ -1,4 +1,5 @@
-import { Sorting } from "../src/algorithms/sort";
+import { PivotStrategy, Sorting } from "../src/algorithms/sort";
+import { Comparators } from "../src/utils/comparators";
 
 describe("Sorting", () => {
   // Helper function to create shuffled arrays
@@ -36,6 +37,91 @@ describe("Sorting", () => {
     });
   });
 
+  describe("QuickSort pivots and introsort", () => {
+    const strategies: PivotStrategy[] = ["median-of-three", "ninther", "random"];
+    const countingCompare = () => {
+      const counter = {
+        comparisons: 0,
+        compare: (a: number, b: number) => {
+          counter.comparisons++;
+          return a - b;
+        },
+      };
+      return counter;
+    };
+
+    /**
+     * McIlroy's adversary: values are decided lazily, so that every pivot
+     * candidate turns out to be as small as possible
+     */
+    const adversarialComparisons = (n: number, pivot: PivotStrategy): number => {
+      const gas = n;
+      const values = new Array(n).fill(gas);
+      let solid = 0;
+      let candidate = 0;
+      let comparisons = 0;
+
+      Sorting.quickSort(
+        Array.from({ length: n }, (_, i) => i),
+        (x, y) => {
+          comparisons++;
+          if (values[x] === gas && values[y] === gas) {
+            values[x === candidate ? x : y] = solid++;
+          }
+          if (values[x] === gas) {
+            candidate = x;
+          } else if (values[y] === gas) {
+            candidate = y;
+          }
+          return values[x] - values[y];
+        },
+        { pivot, seed: 1 }
+      );
+      return comparisons;
+    };
+
+    it.each(strategies)("should sort random, sorted and reversed arrays with %s pivots", (pivot) => {
+      for (const size of [0, 1, 2, 17, 100, 2000]) {
+        const arr = createShuffledArray(size);
+        const expected = Array.from({ length: size }, (_, i) => i);
+        expect(Sorting.quickSort(arr, undefined, { pivot })).toEqual(expected);
+        expect(Sorting.quickSort(expected, undefined, { pivot })).toEqual(expected);
+        expect(Sorting.quickSort([...expected].reverse(), undefined, { pivot })).toEqual(expected);
+      }
+    });
+
+    it.each(strategies)("should stay O(n log n) against an adversarial comparator with %s pivots", (pivot) => {
+      const n = 4000;
+      // Plain quicksort needs on the order of n²/4 = 4,000,000 comparisons here
+      expect(adversarialComparisons(n, pivot)).toBeLessThan(6 * n * Math.log2(n));
+    });
+
+    it("should settle duplicate keys in linear time", () => {
+      const arr = Array.from({ length: 50000 }, (_, i) => i % 3);
+      const counter = countingCompare();
+      const sorted = Sorting.quickSort(arr, counter.compare);
+
+      expect(Sorting.isSorted(sorted)).toBe(true);
+      expect(counter.comparisons).toBeLessThan(5 * arr.length);
+    });
+
+    it("should be reproducible with a seeded random pivot", () => {
+      const arr = Array.from({ length: 1000 }, () => Math.floor(Math.random() * 1000));
+      const first = countingCompare();
+      const second = countingCompare();
+
+      Sorting.quickSort(arr, first.compare, { pivot: "random", seed: 7 });
+      Sorting.quickSort(arr, second.compare, { pivot: "random", seed: 7 });
+      expect(first.comparisons).toBe(second.comparisons);
+    });
+
+    it("should reject unknown pivot strategies", () => {
+      expect(() => Sorting.quickSort([1], undefined, { pivot: "first" as PivotStrategy })).toThrow(
+        "Unknown pivot strategy: first"
+      );
+    });
+  });
+
   describe("MergeSort", () => {
     it("should sort numeric array", () => {
       const arr = [5, 2, 8, 1, 9, 3];
@@ -150,6 +236,557 @@ describe("Sorting", () => {
     });
   });
 
+  describe("Key-based sorting", () => {
+    interface Task {
+      name: string;
+      priority: number;
+    }
+
+    const tasks: Task[] = [
+      { name: "deploy", priority: 2 },
+      { name: "review", priority: 0 },
+      { name: "test", priority: 2 },
+      { name: "build", priority: 1 },
+      { name: "lint", priority: 0 },
+    ];
+    const names = (sorted: Task[]) => sorted.map((task) => task.name);
+
+    it("should counting sort objects by an integer key stably", () => {
+      const sorted = Sorting.countingSort(tasks, (task) => task.priority);
+      expect(names(sorted)).toEqual(["review", "lint", "build", "deploy", "test"]);
+    });
+
+    it("should reject negative and fractional counting sort keys", () => {
+      expect(() => Sorting.countingSort(tasks, (task) => task.priority - 1)).toThrow(
+        "Counting sort only works with non-negative integers"
+      );
+      expect(() => Sorting.countingSort([1.5, 2])).toThrow("Counting sort only works with non-negative integers");
+    });
+
+    it("should radix sort 32-bit integers including negatives", () => {
+      const arr = [170, -45, 75, -90, 802, 24, 2, 66, 0, -1, 2 ** 31 - 1, -(2 ** 31)];
+      expect(Sorting.radixSort(arr)).toEqual([...arr].sort((a, b) => a - b));
+
+      const random = Array.from({ length: 5000 }, () => Math.floor(Math.random() * 2 ** 32) - 2 ** 31);
+      expect(Sorting.radixSort(random)).toEqual([...random].sort((a, b) => a - b));
+    });
+
+    it("should radix sort floats and large numbers", () => {
+      const arr = [3.5, -0.25, 1e300, -1e-300, Infinity, -Infinity, 2 ** 40, -(2 ** 40), 0, 7];
+      expect(Sorting.radixSort(arr)).toEqual([...arr].sort((a, b) => a - b));
+
+      const random = Array.from({ length: 5000 }, () => (Math.random() - 0.5) * 1e6);
+      expect(Sorting.radixSort(random)).toEqual([...random].sort((a, b) => a - b));
+    });
+
+    it("should place -0 before 0 and NaN last", () => {
+      const sorted = Sorting.radixSort([NaN, 0, 1, -0, -1]);
+      expect(sorted.slice(0, 4)).toEqual([-1, -0, 0, 1]);
+      expect(Object.is(sorted[1], -0)).toBe(true);
+      expect(sorted[4]).toBeNaN();
+    });
+
+    it("should radix sort objects by numeric key stably", () => {
+      const items = Array.from({ length: 2000 }, (_, order) => ({ key: (order % 13) - 6.5, order }));
+      const sorted = Sorting.radixSort(items, (item) => item.key);
+      expect(sorted).toEqual([...items].sort((a, b) => a.key - b.key));
+    });
+
+    it("should reject non-numeric radix sort keys", () => {
+      expect(() => Sorting.radixSort(["1"] as any)).toThrow("Radix sort keys must be numbers");
+    });
+
+    it("should radix sort strings in code unit order", () => {
+      const arr = ["she", "sells", "sea", "shells", "by", "the", "sea", "shore", "", "Sea", "séa", "\u{1F600}", "ab"];
+      expect(Sorting.stringRadixSort(arr)).toEqual([...arr].sort());
+
+      const random = Array.from({ length: 3000 }, () =>
+        Array.from({ length: Math.floor(Math.random() * 8) }, () => "abcé中"[Math.floor(Math.random() * 5)]).join("")
+      );
+      expect(Sorting.stringRadixSort(random)).toEqual([...random].sort());
+    });
+
+    it("should handle long common prefixes without deep recursion", () => {
+      const prefix = "x".repeat(20000);
+      const arr = Array.from({ length: 40 }, (_, i) => prefix + String.fromCharCode(97 + ((i * 7) % 26)));
+      expect(Sorting.stringRadixSort(arr)).toEqual([...arr].sort());
+    });
+
+    it("should radix sort objects by string key stably", () => {
+      const sorted = Sorting.stringRadixSort(tasks, (task) => task.name.slice(0, 1));
+      expect(names(sorted)).toEqual(["build", "deploy", "lint", "review", "test"]);
+
+      const items = Array.from({ length: 1000 }, (_, order) => ({ key: `k${order % 17}`, order }));
+      expect(Sorting.stringRadixSort(items, (item) => item.key)).toEqual(
+        [...items].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      );
+    });
+
+    it("should reject non-string keys for string radix sort", () => {
+      expect(() => Sorting.stringRadixSort([1] as any)).toThrow("String radix sort keys must be strings");
+    });
+
+    it("should pick a key-based algorithm in Sorting.sort", () => {
+      const timSort = jest.spyOn(Sorting, "timSort");
+      const byPriority = Sorting.sort(tasks, { key: (task) => task.priority });
+      const byName = Sorting.sort(tasks, { key: (task) => task.name });
+      const byScore = Sorting.sort([2.5, -1, 1e9, 0], { key: (value) => value });
+
+      expect(names(byPriority)).toEqual(["review", "lint", "build", "deploy", "test"]);
+      expect(names(byName)).toEqual(["build", "deploy", "lint", "review", "test"]);
+      expect(byScore).toEqual([-1, 0, 2.5, 1e9]);
+      expect(timSort).not.toHaveBeenCalled();
+      timSort.mockRestore();
+    });
+
+    it("should sort by multiple keys in successive key passes", () => {
+      const byName = Sorting.sort(tasks, { key: (task) => task.name });
+      const byPriorityThenName = Sorting.sort(byName, { key: (task) => task.priority });
+      expect(names(byPriorityThenName)).toEqual(["lint", "review", "build", "deploy", "test"]);
+    });
+
+    it("should reject mixed key types in Sorting.sort", () => {
+      expect(() => Sorting.sort<number | string>([1, "a"], { key: (value) => value })).toThrow(
+        "Sort keys must be all numbers or all strings"
+      );
+    });
+  });
+
+  describe("TimSort", () => {
+    const byNumber = (a: number, b: number) => a - b;
+    const reference = (arr: number[]) => [...arr].sort(byNumber);
+
+    it("should sort numeric array", () => {
+      const arr = [5, 2, 8, 1, 9, 3];
+      const sorted = Sorting.timSort(arr);
+      expect(sorted).toEqual([1, 2, 3, 5, 8, 9]);
+      expect(arr).toEqual([5, 2, 8, 1, 9, 3]); // Original unchanged
+    });
+
+    it("should handle empty, single element and duplicate arrays", () => {
+      expect(Sorting.timSort([])).toEqual([]);
+      expect(Sorting.timSort([1])).toEqual([1]);
+      expect(Sorting.timSort(Array(100).fill(2))).toEqual(Array(100).fill(2));
+    });
+
+    it("should sort random arrays of many sizes", () => {
+      for (const size of [2, 31, 32, 33, 64, 65, 100, 1000, 5000]) {
+        const arr = Array.from({ length: size }, () => Math.floor(Math.random() * size));
+        expect(Sorting.timSort(arr)).toEqual(reference(arr));
+      }
+    });
+
+    it("should sort presorted and reversed input in linear comparisons", () => {
+      const sorted = Array.from({ length: 10000 }, (_, i) => i);
+      let comparisons = 0;
+      const counting = (a: number, b: number) => {
+        comparisons++;
+        return a - b;
+      };
+
+      expect(Sorting.timSort(sorted, counting)).toEqual(sorted);
+      expect(comparisons).toBe(sorted.length - 1);
+
+      comparisons = 0;
+      expect(Sorting.timSort([...sorted].reverse(), counting)).toEqual(sorted);
+      expect(comparisons).toBe(sorted.length - 1);
+    });
+
+    it("should merge interleaved and blocky runs", () => {
+      const evens = Array.from({ length: 2000 }, (_, i) => i * 2);
+      const odds = evens.map((n) => n + 1);
+      const blocks = [
+        ...Array.from({ length: 3000 }, (_, i) => i + 5000),
+        ...Array.from({ length: 3000 }, (_, i) => i),
+        ...Array.from({ length: 50 }, (_, i) => 10000 - i),
+      ];
+
+      expect(Sorting.timSort([...evens, ...odds])).toEqual(reference([...evens, ...odds]));
+      expect(Sorting.timSort(blocks)).toEqual(reference(blocks));
+    });
+
+    it("should gallop through long one-sided stretches", () => {
+      // Runs where one side wins thousands of times in a row
+      const low = Array.from({ length: 4000 }, (_, i) => i);
+      const high = Array.from({ length: 4000 }, (_, i) => i + 4000);
+      const mixed = [...high, ...low, ...high.slice(0, 100), 1, 2, 3];
+      let comparisons = 0;
+      const counting = (a: number, b: number) => {
+        comparisons++;
+        return a - b;
+      };
+
+      expect(Sorting.timSort([...high, ...low], counting)).toEqual([...low, ...high]);
+      expect(comparisons).toBeLessThan(9000);
+      expect(Sorting.timSort(mixed)).toEqual(reference(mixed));
+    });
+
+    it("should handle custom comparator", () => {
+      const arr = ["banana", "apple", "cherry", "date"];
+      expect(Sorting.timSort(arr, (a, b) => b.localeCompare(a))).toEqual(["date", "cherry", "banana", "apple"]);
+    });
+  });
+
+  describe("Stability", () => {
+    interface Item {
+      key: number;
+      order: number;
+    }
+
+    const items = (size: number, keys: number): Item[] =>
+      Array.from({ length: size }, (_, order) => ({ key: Math.floor(Math.random() * keys), order }));
+    const byKey = (a: Item, b: Item) => a.key - b.key;
+    const expectStable = (sorted: Item[]) => {
+      for (let i = 1; i < sorted.length; i++) {
+        expect(byKey(sorted[i - 1], sorted[i])).toBeLessThanOrEqual(0);
+        if (sorted[i - 1].key === sorted[i].key) {
+          expect(sorted[i - 1].order).toBeLessThan(sorted[i].order);
+        }
+      }
+    };
+
+    it.each([
+      ["mergeSort", Sorting.mergeSort],
+      ["insertionSort", Sorting.insertionSort],
+      ["timSort", Sorting.timSort],
+      ["sort", Sorting.sort],
+    ])("should keep equal elements in input order with %s", (_, sort) => {
+      for (const size of [5, 40, 1000]) {
+        expectStable(sort(items(size, 7), byKey));
+      }
+    });
+
+    it("should keep equal elements in input order within long runs", () => {
+      // Ascending and descending runs full of ties exercise run reversal and galloping
+      const arr = [
+        ...Array.from({ length: 500 }, (_, order) => ({ key: Math.floor(order / 50), order })),
+        ...Array.from({ length: 500 }, (_, i) => ({ key: 9 - Math.floor(i / 50), order: 500 + i })),
+        ...items(500, 10).map((item) => ({ ...item, order: 1000 + item.order })),
+      ];
+      expectStable(Sorting.timSort(arr, byKey));
+    });
+
+    it("should sort by multiple keys in successive passes", () => {
+      const people = Array.from({ length: 300 }, (_, i) => ({
+        name: `person${i % 37}`,
+        age: 20 + (i % 5),
+      }));
+      const byName = Sorting.sort(people, (a, b) => a.name.localeCompare(b.name));
+      const byAgeThenName = Sorting.sort(byName, (a, b) => a.age - b.age);
+
+      const expected = [...people].sort((a, b) => a.age - b.age || a.name.localeCompare(b.name));
+      expect(byAgeThenName).toEqual(expected);
+    });
+  });
+
+  describe("In-place sorting", () => {
+    const inPlaceSorts = [
+      ["sortInPlace", Sorting.sortInPlace],
+      ["quickSortInPlace", Sorting.quickSortInPlace],
+      ["heapSortInPlace", Sorting.heapSortInPlace],
+      ["insertionSortInPlace", Sorting.insertionSortInPlace],
+    ] as const;
+
+    it.each(inPlaceSorts)("should sort plain arrays in place with %s", (_, sortInPlace) => {
+      const arr = createShuffledArray(500);
+      const result = sortInPlace(arr);
+
+      expect(result).toBe(arr);
+      expect(arr).toEqual(Array.from({ length: 500 }, (_, i) => i));
+    });
+
+    it.each(inPlaceSorts)("should sort typed arrays with %s", (_, sortInPlace) => {
+      const floats = Float64Array.from({ length: 300 }, () => Math.random() * 200 - 100);
+      const ints = Int32Array.from({ length: 300 }, () => Math.floor(Math.random() * 2 ** 32) - 2 ** 31);
+
+      expect(sortInPlace(floats)).toBe(floats);
+      expect(sortInPlace(ints)).toBe(ints);
+      expect(Array.from(floats)).toEqual(Array.from(floats).sort((a, b) => a - b));
+      expect(Array.from(ints)).toEqual(Array.from(ints).sort((a, b) => a - b));
+    });
+
+    it.each(inPlaceSorts)("should sort only the given subrange with %s", (_, sortInPlace) => {
+      const arr = new Int32Array([9, 8, 7, 6, 5, 4, 3, 2, 1]);
+
+      sortInPlace(arr, undefined, { from: 2, to: 6 });
+      expect(Array.from(arr)).toEqual([9, 8, 4, 5, 6, 7, 3, 2, 1]);
+
+      sortInPlace(arr, (a, b) => b - a, { from: 6 });
+      expect(Array.from(arr)).toEqual([9, 8, 4, 5, 6, 7, 3, 2, 1]);
+
+      sortInPlace(arr, undefined, { to: 2 });
+      expect(Array.from(arr)).toEqual([8, 9, 4, 5, 6, 7, 3, 2, 1]);
+    });
+
+    it.each(inPlaceSorts)("should reject ranges outside the array with %s", (_, sortInPlace) => {
+      const arr = [3, 2, 1];
+
+      expect(() => sortInPlace(arr, undefined, { from: -1 })).toThrow(RangeError);
+      expect(() => sortInPlace(arr, undefined, { to: 4 })).toThrow(RangeError);
+      expect(() => sortInPlace(arr, undefined, { from: 2, to: 1 })).toThrow(RangeError);
+      expect(() => sortInPlace(arr, undefined, { from: 0.5 })).toThrow("Index out of range");
+      expect(arr).toEqual([3, 2, 1]);
+    });
+
+    it("should sort large typed arrays in place", () => {
+      const arr = Float64Array.from({ length: 200000 }, () => Math.random());
+      const expected = Float64Array.from(arr).sort();
+
+      Sorting.sortInPlace(arr);
+      expect(arr.every((value, i) => value === expected[i])).toBe(true);
+    });
+
+    it("should accept a comparator and pivot options for quickSortInPlace", () => {
+      const words = ["pear", "fig", "apple", "kiwi", "banana"];
+
+      Sorting.quickSortInPlace(words, (a, b) => a.length - b.length || a.localeCompare(b), {
+        pivot: "random",
+        seed: 3,
+        from: 1,
+      });
+      expect(words).toEqual(["pear", "fig", "kiwi", "apple", "banana"]);
+    });
+
+    it("should keep equal elements in input order with insertionSortInPlace", () => {
+      const arr = Array.from({ length: 200 }, (_, order) => ({ key: order % 4, order }));
+
+      Sorting.insertionSortInPlace(arr, (a, b) => a.key - b.key, { from: 50, to: 150 });
+      for (let i = 51; i < 150; i++) {
+        expect(arr[i].key > arr[i - 1].key || arr[i].order > arr[i - 1].order).toBe(true);
+      }
+    });
+  });
+
+  describe("Selection and partial sorting", () => {
+    const sortedCopy = (arr: number[]) => [...arr].sort((a, b) => a - b);
+    const randomInts = (size: number, range: number) =>
+      Array.from({ length: size }, () => Math.floor(Math.random() * range));
+
+    it("should select the k-th smallest element", () => {
+      const arr = [7, 1, 5, 3, 9];
+      expect(Sorting.select(arr, 0)).toBe(1);
+      expect(Sorting.select(arr, 1)).toBe(3);
+      expect(Sorting.select(arr, 4)).toBe(9);
+      expect(arr).toEqual([7, 1, 5, 3, 9]); // Original unchanged
+    });
+
+    it("should agree with a full sort for every k", () => {
+      for (const size of [1, 17, 100, 1001]) {
+        const arr = randomInts(size, size >> 1 || 1);
+        const expected = sortedCopy(arr);
+        for (let k = 0; k < size; k += Math.ceil(size / 25)) {
+          expect(Sorting.select(arr, k)).toBe(expected[k]);
+        }
+      }
+    });
+
+    it("should select with a custom comparator", () => {
+      const words = ["pear", "fig", "banana", "kiwi"];
+      expect(Sorting.select(words, 0, (a, b) => b.length - a.length)).toBe("banana");
+      expect(Sorting.select(words, 1)).toBe("fig");
+    });
+
+    it("should stay linear against an adversarial comparator", () => {
+      const n = 20000;
+      const gas = n;
+      const values = new Array(n).fill(gas);
+      let solid = 0;
+      let candidate = 0;
+      let comparisons = 0;
+
+      Sorting.select(
+        Array.from({ length: n }, (_, i) => i),
+        n >> 1,
+        (x, y) => {
+          comparisons++;
+          if (values[x] === gas && values[y] === gas) {
+            values[x === candidate ? x : y] = solid++;
+          }
+          if (values[x] === gas) {
+            candidate = x;
+          } else if (values[y] === gas) {
+            candidate = y;
+          }
+          return values[x] - values[y];
+        }
+      );
+      // Quickselect alone needs on the order of n²/8 = 50,000,000 comparisons here
+      expect(comparisons).toBeLessThan(50 * n);
+    });
+
+    it("should reject indices outside the array", () => {
+      expect(() => Sorting.select([1, 2, 3], 3)).toThrow(RangeError);
+      expect(() => Sorting.select([1, 2, 3], -1)).toThrow("Index out of range");
+      expect(() => Sorting.select([], 0)).toThrow(RangeError);
+      expect(() => Sorting.select([1, 2], 0.5)).toThrow(RangeError);
+    });
+
+    it("should sort only the k smallest elements", () => {
+      const arr = randomInts(1000, 300);
+      const expected = sortedCopy(arr);
+
+      for (const k of [0, 1, 10, 999, 1000]) {
+        const result = Sorting.partialSort(arr, k);
+        expect(result.slice(0, k)).toEqual(expected.slice(0, k));
+        expect(sortedCopy(result)).toEqual(expected);
+      }
+      expect(Sorting.partialSort(arr, 5000)).toEqual(expected);
+    });
+
+    it("should partial sort with a custom comparator", () => {
+      const words = ["pear", "fig", "banana", "kiwi", "apple"];
+      const result = Sorting.partialSort(words, 2, (a, b) => b.localeCompare(a));
+      expect(result.slice(0, 2)).toEqual(["pear", "kiwi"]);
+      expect(result).toHaveLength(5);
+    });
+
+    it("should return the k largest elements, largest first", () => {
+      const scores = randomInts(100000, 1000000);
+      const expected = sortedCopy(scores).reverse().slice(0, 100);
+
+      expect(Sorting.topK(scores, 100)).toEqual(expected);
+      expect(Sorting.topK([3, 1, 2], 0)).toEqual([]);
+      expect(Sorting.topK([3, 1, 2], 10)).toEqual([3, 2, 1]);
+      expect(Sorting.topK([], 3)).toEqual([]);
+    });
+
+    it("should take the top k by a comparator", () => {
+      const products = [
+        { name: "lamp", price: 30 },
+        { name: "desk", price: 120 },
+        { name: "pen", price: 2 },
+        { name: "mug", price: 8 },
+      ];
+      const cheapest = Sorting.topK(products, 2, Comparators.reversed(Comparators.by((p) => p.price)));
+      expect(cheapest.map((p) => p.name)).toEqual(["pen", "mug"]);
+    });
+
+    it("should reject invalid counts", () => {
+      expect(() => Sorting.topK([1], -1)).toThrow("Count must be a non-negative integer");
+      expect(() => Sorting.partialSort([1], 1.5)).toThrow(RangeError);
+    });
+
+    it("should find the median", () => {
+      expect(Sorting.median([5, 1, 4, 2, 3])).toBe(3);
+      expect(Sorting.median([4, 1, 3, 2])).toBe(2);
+      expect(Sorting.median(["pear", "fig", "apple", "kiwi"])).toBe("fig");
+      expect(Sorting.median([])).toBeUndefined();
+
+      const arr = randomInts(10001, 5000);
+      expect(Sorting.median(arr)).toBe(sortedCopy(arr)[5000]);
+    });
+  });
+
+  describe("Instrumentation", () => {
+    const countingComparator = () => {
+      const counter = { calls: 0 };
+      const compare = (a: number, b: number) => {
+        counter.calls++;
+        return a - b;
+      };
+      return { counter, compare };
+    };
+
+    it("should report every metric for a small sort", () => {
+      const { result, metrics } = Sorting.instrumented(() => Sorting.insertionSort([3, 2, 1]));
+
+      expect(result).toEqual([1, 2, 3]);
+      expect(metrics).toEqual({ comparisons: 3, swaps: 0, moves: 5, maxDepth: 0, elapsedMs: expect.any(Number) });
+      expect(metrics.elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should count each comparison exactly once", () => {
+      const arr = createShuffledArray(500);
+      const runs: [string, (compare: (a: number, b: number) => number) => unknown][] = [
+        ["quickSort", (compare) => Sorting.quickSort(arr, compare)],
+        ["mergeSort", (compare) => Sorting.mergeSort(arr, compare)],
+        ["heapSort", (compare) => Sorting.heapSort(arr, compare)],
+        ["timSort", (compare) => Sorting.timSort(arr, compare)],
+        ["sortInPlace", (compare) => Sorting.sortInPlace([...arr], compare)],
+        ["partialSort", (compare) => Sorting.partialSort(arr, 50, compare)],
+        ["topK", (compare) => Sorting.topK(arr, 50, compare)],
+        ["median", (compare) => Sorting.median(arr, compare)],
+        ["isSorted", (compare) => Sorting.isSorted(arr, compare)],
+      ];
+
+      for (const [name, run] of runs) {
+        const { counter, compare } = countingComparator();
+        const { metrics } = Sorting.instrumented(() => run(compare));
+        expect([name, metrics.comparisons]).toEqual([name, counter.calls]);
+        expect(counter.calls).toBeGreaterThan(0);
+      }
+    });
+
+    it("should report recursion depth for recursive algorithms only", () => {
+      const arr = createShuffledArray(1024);
+      const quick = Sorting.instrumented(() => Sorting.quickSort(arr)).metrics;
+      const merge = Sorting.instrumented(() => Sorting.mergeSort(arr)).metrics;
+      const heap = Sorting.instrumented(() => Sorting.heapSort(arr)).metrics;
+      const tim = Sorting.instrumented(() => Sorting.timSort(arr)).metrics;
+
+      expect(quick.maxDepth).toBeGreaterThan(1);
+      expect(quick.maxDepth).toBeLessThanOrEqual(2 * Math.log2(arr.length) + 1);
+      expect(quick.swaps).toBeGreaterThan(0);
+      expect(merge.maxDepth).toBe(10);
+      expect(merge.moves).toBe(10 * 1024);
+      expect(heap.maxDepth).toBe(0);
+      expect(heap.moves).toBe(0);
+      expect(heap.swaps).toBeGreaterThan(0);
+      expect(tim.maxDepth).toBe(0);
+      expect(tim.moves).toBeGreaterThan(0);
+    });
+
+    it("should let algorithms be compared on the same data", () => {
+      const presorted = Array.from({ length: 1000 }, (_, i) => i);
+      const tim = Sorting.instrumented(() => Sorting.timSort(presorted)).metrics;
+      const heap = Sorting.instrumented(() => Sorting.heapSort(presorted)).metrics;
+
+      expect(tim.comparisons).toBe(999);
+      expect(tim.moves + tim.swaps).toBe(0);
+      expect(heap.comparisons).toBeGreaterThan(10 * tim.comparisons);
+    });
+
+    it("should report moves without comparisons for key-based sorts", () => {
+      const numbers = Sorting.instrumented(() => Sorting.radixSort([170, -45, 75, -90, 2.5])).metrics;
+      const counts = Sorting.instrumented(() => Sorting.countingSort([3, 1, 2])).metrics;
+      const strings = Sorting.instrumented(() => Sorting.sort(["b", "c", "a"], { key: (s) => s })).metrics;
+
+      expect(numbers.comparisons).toBe(0);
+      expect(numbers.moves).toBeGreaterThan(5);
+      expect(counts).toMatchObject({ comparisons: 0, swaps: 0, moves: 3, maxDepth: 0 });
+      // Short string buckets are finished with insertion sort on the keys
+      expect(strings.comparisons).toBe(3);
+    });
+
+    it("should collect metrics across several calls", () => {
+      const { result, metrics } = Sorting.instrumented(() => {
+        const sorted = Sorting.mergeSort([2, 1]);
+        return Sorting.isSorted(sorted);
+      });
+
+      expect(result).toBe(true);
+      expect(metrics).toMatchObject({ comparisons: 2, moves: 2, maxDepth: 1 });
+    });
+
+    it("should stop counting when the run ends or throws", () => {
+      const { counter, compare } = countingComparator();
+      const failing = () =>
+        Sorting.instrumented(() => {
+          Sorting.quickSort([3, 1, 2], compare);
+          throw new Error("aborted");
+        });
+
+      expect(failing).toThrow("aborted");
+      expect(Sorting.quickSort([3, 1, 2], compare)).toEqual([1, 2, 3]);
+      expect(Sorting.instrumented(() => Sorting.isSorted([1, 2])).metrics.comparisons).toBe(1);
+      expect(counter.calls).toBeGreaterThan(0);
+    });
+
+    it("should reject a non-function run", () => {
+      expect(() => Sorting.instrumented([3, 1, 2] as any)).toThrow("Run must be a function");
+    });
+  });
+
   describe("Hybrid Sort", () => {
     it("should use insertion sort for small arrays", () => {
       const arr = [5, 2, 8, 1, 9]; // Length <= 10
@@ -157,7 +794,7 @@ describe("Sorting", () => {
       expect(sorted).toEqual([1, 2, 5, 8, 9]);
     });
 
-    it("should use quicksort for larger arrays", () => {
+    it("should use timsort for larger arrays", () => {
       const arr = createShuffledArray(100); // Length > 10
       const sorted = Sorting.sort(arr);
       expect(Sorting.isSorted(sorted)).toBe(true);
@@ -1,4 +1,14 @@
-import { BinarySearchTree, Trie, GeneralTree } from "../src/data-structures/tree";
+import {
+  BinarySearchTree,
+  AVLTree,
+  RedBlackTree,
+  SortedSet,
+  SortedMap,
+  Trie,
+  TrieMap,
+  RadixTrie,
+  GeneralTree,
+} from "../src/data-structures/tree";
 
 describe("BinarySearchTree", () => {
   describe("basic operations", () => {
@@ -78,6 +88,474 @@ describe("BinarySearchTree", () => {
       expect(bst.contains(4)).toBe(false);
       expect(bst.contains(6)).toBe(false);
     });
+
+    it("should find min, max and nearest values", () => {
+      const bst = BinarySearchTree.from([5, 3, 7, 1]);
+
+      expect(bst.min()).toBe(1);
+      expect(bst.max()).toBe(7);
+      expect(bst.floor(4)).toBe(3);
+      expect(bst.ceiling(4)).toBe(5);
+      expect(bst.lower(5)).toBe(3);
+      expect(bst.higher(5)).toBe(7);
+      expect(new BinarySearchTree<number>().min()).toBeUndefined();
+    });
+  });
+
+  describe("traversals", () => {
+    //        5
+    //      /   \
+    //     3     8
+    //    / \     \
+    //   1   4     9
+    const bst = BinarySearchTree.from([5, 3, 8, 1, 4, 9]);
+
+    it("should traverse in every order", () => {
+      expect([...bst.inorder()]).toEqual([1, 3, 4, 5, 8, 9]);
+      expect([...bst.reverseInorder()]).toEqual([9, 8, 5, 4, 3, 1]);
+      expect([...bst.preorder()]).toEqual([5, 3, 1, 4, 8, 9]);
+      expect([...bst.postorder()]).toEqual([1, 4, 3, 9, 8, 5]);
+      expect([...bst.levelOrder()]).toEqual([5, 3, 8, 1, 4, 9]);
+    });
+
+    it("should report depth in level order", () => {
+      expect([...bst.levelOrderWithDepth()]).toEqual([
+        { value: 5, depth: 0 },
+        { value: 3, depth: 1 },
+        { value: 8, depth: 1 },
+        { value: 1, depth: 2 },
+        { value: 4, depth: 2 },
+        { value: 9, depth: 2 },
+      ]);
+    });
+
+    it("should be lazy", () => {
+      const iterator = bst.preorder();
+      expect(iterator.next().value).toBe(5);
+      expect(iterator.next().value).toBe(3);
+    });
+
+    it("should handle empty trees", () => {
+      const empty = new BinarySearchTree<number>();
+      expect([...empty.preorder()]).toEqual([]);
+      expect([...empty.postorder()]).toEqual([]);
+      expect([...empty.reverseInorder()]).toEqual([]);
+      expect([...empty.levelOrderWithDepth()]).toEqual([]);
+    });
+
+    it("should traverse degenerate trees without overflowing the stack", () => {
+      let tree = new BinarySearchTree<number>();
+      for (let i = 0; i < 3000; i++) {
+        tree = tree.insert(i);
+      }
+      expect([...tree.postorder()][0]).toBe(2999);
+      expect(tree.height()).toBe(3000);
+    });
+  });
+
+  describe("structure queries", () => {
+    const bst = BinarySearchTree.from([5, 3, 8, 1, 4, 9]);
+
+    it("should compute height and depth", () => {
+      expect(bst.height()).toBe(3);
+      expect(new BinarySearchTree<number>().height()).toBe(0);
+      expect(bst.depth(5)).toBe(0);
+      expect(bst.depth(8)).toBe(1);
+      expect(bst.depth(4)).toBe(2);
+      expect(bst.depth(7)).toBe(-1);
+    });
+
+    it("should find successors and predecessors", () => {
+      expect(bst.successor(4)).toBe(5);
+      expect(bst.successor(6)).toBe(8);
+      expect(bst.successor(9)).toBeUndefined();
+      expect(bst.predecessor(5)).toBe(4);
+      expect(bst.predecessor(1)).toBeUndefined();
+    });
+
+    it("should report AVL height in levels", () => {
+      const avl = AVLTree.from([1, 2, 3, 4, 5, 6, 7]);
+      expect(avl.height()).toBe(3);
+    });
+  });
+
+  describe("order statistics", () => {
+    const bst = BinarySearchTree.from([50, 20, 80, 10, 30, 70, 90, 30]);
+
+    it("should select the k-th smallest element", () => {
+      expect(bst.select(0)).toBe(10);
+      expect(bst.select(2)).toBe(30);
+      expect(bst.select(3)).toBe(30);
+      expect(bst.select(7)).toBe(90);
+      expect(bst.select(8)).toBeUndefined();
+      expect(bst.select(-1)).toBeUndefined();
+    });
+
+    it("should rank values", () => {
+      expect(bst.rank(5)).toBe(0);
+      expect(bst.rank(30)).toBe(2);
+      expect(bst.rank(31)).toBe(4);
+      expect(bst.rank(100)).toBe(8);
+    });
+
+    it("should count values in range", () => {
+      expect(bst.countInRange(20, 70)).toBe(5);
+      expect(bst.countInRange(31, 49)).toBe(0);
+      expect(bst.countInRange(0, 100)).toBe(8);
+      expect(bst.countInRange(70, 20)).toBe(0);
+    });
+
+    it("should iterate over a range in order", () => {
+      expect([...bst.rangeIterator(25, 80)]).toEqual([30, 30, 50, 70, 80]);
+      expect([...bst.rangeIterator(91, 95)]).toEqual([]);
+    });
+
+    it("should keep sizes consistent after removals", () => {
+      const bst2 = bst.remove(50).remove(30);
+
+      expect(bst2.size()).toBe(6);
+      expect(bst2.select(2)).toBe(30);
+      expect(bst2.rank(80)).toBe(4);
+      expect(bst.size()).toBe(8); // Original unchanged
+    });
+
+    it("should answer queries on balanced trees", () => {
+      let avl = new AVLTree<number>();
+      let rbt = new RedBlackTree<number>();
+      for (let i = 0; i < 1000; i++) {
+        avl = avl.insert(i);
+        rbt = rbt.insert(999 - i);
+      }
+      avl = avl.remove(500);
+      rbt = rbt.remove(500);
+
+      for (const tree of [avl, rbt]) {
+        expect(tree.size()).toBe(999);
+        expect(tree.select(500)).toBe(501);
+        expect(tree.rank(600)).toBe(599);
+        expect(tree.countInRange(400, 599)).toBe(199);
+        expect([...tree.rangeIterator(498, 503)]).toEqual([498, 499, 501, 502, 503]);
+      }
+    });
+  });
+
+  describe("custom comparison", () => {
+    interface Order {
+      timestamp: number;
+      id: string;
+    }
+    const byTimestampThenId = (a: Order, b: Order) => a.timestamp - b.timestamp || a.id.localeCompare(b.id);
+
+    it("should order elements using the comparator", () => {
+      const bst = new BinarySearchTree<Order>(byTimestampThenId)
+        .insert({ timestamp: 2, id: "a" })
+        .insert({ timestamp: 1, id: "b" })
+        .insert({ timestamp: 1, id: "a" });
+
+      expect([...bst].map((order) => `${order.timestamp}${order.id}`)).toEqual(["1a", "1b", "2a"]);
+    });
+
+    it("should find and remove by comparator equality", () => {
+      const bst = BinarySearchTree.from<Order>(
+        [
+          { timestamp: 3, id: "c" },
+          { timestamp: 1, id: "a" },
+          { timestamp: 2, id: "b" },
+        ],
+        byTimestampThenId
+      );
+
+      expect(bst.contains({ timestamp: 2, id: "b" })).toBe(true);
+      const bst2 = bst.remove({ timestamp: 2, id: "b" });
+      expect(bst2.contains({ timestamp: 2, id: "b" })).toBe(false);
+      expect(bst2.size()).toBe(2);
+    });
+
+    it("should keep the comparator across insert and remove", () => {
+      const descending = BinarySearchTree.from([1, 2, 3], (a, b) => b - a);
+      const bst2 = descending.remove(2).insert(5).insert(0);
+
+      expect([...bst2]).toEqual([5, 3, 1, 0]);
+    });
+
+    it("should order strings by default", () => {
+      const bst = BinarySearchTree.from(["pear", "apple", "fig"]);
+      expect([...bst]).toEqual(["apple", "fig", "pear"]);
+    });
+
+    it("should create balanced trees from arrays", () => {
+      const avl = AVLTree.from([1, 2, 3, 4], (a, b) => b - a);
+      const rbt = RedBlackTree.from([1, 2, 3, 4], (a, b) => b - a);
+
+      expect([...avl.insert(0)]).toEqual([4, 3, 2, 1, 0]);
+      expect([...rbt.remove(3)]).toEqual([4, 2, 1]);
+    });
+
+    it("should throw on invalid arguments", () => {
+      expect(() => new BinarySearchTree<number>("invalid" as any)).toThrow(TypeError);
+      expect(() => BinarySearchTree.from(null as any)).toThrow(TypeError);
+    });
+  });
+});
+
+describe.each([
+  ["AVLTree", () => new AVLTree<number>()],
+  ["RedBlackTree", () => new RedBlackTree<number>()],
+])("%s", (_, createTree) => {
+  describe("balancing", () => {
+    it("should stay logarithmic for sorted insertions", () => {
+      let tree = createTree();
+      for (let i = 0; i < 20000; i++) {
+        tree = tree.insert(i);
+      }
+
+      expect(tree.size()).toBe(20000);
+      expect(tree.height()).toBeLessThanOrEqual(2 * Math.log2(20001));
+      expect(tree.contains(0)).toBe(true);
+      expect(tree.contains(19999)).toBe(true);
+      expect(tree.contains(20000)).toBe(false);
+    });
+
+    it("should stay logarithmic after removals", () => {
+      let tree = createTree();
+      for (let i = 0; i < 2000; i++) {
+        tree = tree.insert(i);
+      }
+      for (let i = 0; i < 1500; i++) {
+        tree = tree.remove(i);
+      }
+
+      expect(tree.size()).toBe(500);
+      expect([...tree]).toEqual(Array.from({ length: 500 }, (_, i) => i + 1500));
+      expect(tree.height()).toBeLessThanOrEqual(2 * Math.log2(501));
+    });
+  });
+
+  describe("operations", () => {
+    it("should keep the same results as a sorted model", () => {
+      let tree = createTree();
+      let model: number[] = [];
+      let seed = 42;
+      const next = () => (seed = (seed * 1103515245 + 12345) % 2147483648) % 200;
+
+      for (let i = 0; i < 1000; i++) {
+        const value = next();
+        if (i % 3 === 2) {
+          tree = tree.remove(value);
+          const index = model.indexOf(value);
+          if (index !== -1) model.splice(index, 1);
+        } else {
+          tree = tree.insert(value);
+          model = [...model, value].sort((a, b) => a - b);
+        }
+        expect(tree.size()).toBe(model.length);
+      }
+
+      expect([...tree]).toEqual(model);
+    });
+
+    it("should preserve previous versions", () => {
+      const tree = createTree().insert(2).insert(1).insert(3);
+      const tree2 = tree.remove(2).insert(4);
+
+      expect([...tree]).toEqual([1, 2, 3]);
+      expect([...tree2]).toEqual([1, 3, 4]);
+    });
+
+    it("should return the same tree when removing a missing value", () => {
+      const tree = createTree().insert(1).insert(2);
+      expect(tree.remove(5)).toBe(tree);
+      expect(tree.remove(5).size()).toBe(2);
+    });
+
+    it("should return instances of the same tree type", () => {
+      const tree = createTree();
+      expect(tree.insert(1)).toBeInstanceOf(tree.constructor);
+      expect(tree.insert(1).remove(1)).toBeInstanceOf(tree.constructor);
+    });
+  });
+});
+
+describe("RedBlackTree invariants", () => {
+  // Checks what the invariants guarantee: an ordered tree with correct
+  // subtree sizes and a height of at most 2·log2(n + 1)
+  const expectValid = (tree: RedBlackTree<number>, values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    expect([...tree.inorder()]).toEqual(sorted);
+    // rank counts strictly smaller elements, so duplicates share the first one's position
+    expect(sorted.every((value, i) => tree.select(i) === value)).toBe(true);
+    expect(sorted.every((value) => tree.rank(value) === sorted.indexOf(value))).toBe(true);
+    expect(tree.height()).toBeLessThanOrEqual(2 * Math.log2(sorted.length + 1));
+  };
+
+  it("should hold after every insertion and removal", () => {
+    let tree = new RedBlackTree<number>();
+    const values: number[] = [];
+    for (let i = 0; i < 300; i++) {
+      tree = tree.insert((i * 37) % 101);
+      values.push((i * 37) % 101);
+      expectValid(tree, values);
+    }
+    for (let i = 0; i < 300; i++) {
+      const index = values.indexOf((i * 53) % 101);
+      tree = tree.remove((i * 53) % 101);
+      if (index !== -1) values.splice(index, 1);
+      expectValid(tree, values);
+    }
+  });
+});
+
+describe("SortedSet", () => {
+  describe("basic operations", () => {
+    it("should create an empty set", () => {
+      const set = new SortedSet<number>();
+      expect(set.isEmpty()).toBe(true);
+      expect(set.size()).toBe(0);
+      expect(set.first()).toBeUndefined();
+      expect(set.last()).toBeUndefined();
+    });
+
+    it("should keep elements unique and ordered", () => {
+      const set = SortedSet.from([5, 1, 3, 5, 1]);
+
+      expect(set.size()).toBe(3);
+      expect([...set]).toEqual([1, 3, 5]);
+      expect(set.add(3)).toBe(set);
+    });
+
+    it("should add and delete immutably", () => {
+      const set = SortedSet.from([1, 2, 3]);
+      const set2 = set.add(4).delete(1);
+
+      expect([...set]).toEqual([1, 2, 3]); // Original unchanged
+      expect([...set2]).toEqual([2, 3, 4]);
+      expect(set2.has(1)).toBe(false);
+      expect(set2.has(4)).toBe(true);
+      expect(set.delete(10)).toBe(set);
+    });
+  });
+
+  describe("navigation", () => {
+    const set = SortedSet.from([10, 20, 30]);
+
+    it("should find floor and ceiling", () => {
+      expect(set.floor(20)).toBe(20);
+      expect(set.floor(25)).toBe(20);
+      expect(set.floor(5)).toBeUndefined();
+      expect(set.ceiling(20)).toBe(20);
+      expect(set.ceiling(25)).toBe(30);
+      expect(set.ceiling(35)).toBeUndefined();
+    });
+
+    it("should find strictly lower and higher elements", () => {
+      expect(set.lower(20)).toBe(10);
+      expect(set.lower(10)).toBeUndefined();
+      expect(set.higher(20)).toBe(30);
+      expect(set.higher(30)).toBeUndefined();
+    });
+
+    it("should return first and last", () => {
+      expect(set.first()).toBe(10);
+      expect(set.last()).toBe(30);
+    });
+  });
+
+  it("should use a custom comparator", () => {
+    const set = SortedSet.from(["b", "A", "c"], (a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+
+    expect([...set]).toEqual(["A", "b", "c"]);
+    expect(set.has("a")).toBe(true);
+  });
+});
+
+describe("SortedMap", () => {
+  describe("basic operations", () => {
+    it("should create an empty map", () => {
+      const map = new SortedMap<number, string>();
+      expect(map.isEmpty()).toBe(true);
+      expect(map.size()).toBe(0);
+      expect(map.get(1)).toBeUndefined();
+    });
+
+    it("should set and get values", () => {
+      const map = new SortedMap<number, string>().set(3, "c").set(1, "a").set(2, "b");
+
+      expect(map.size()).toBe(3);
+      expect(map.get(2)).toBe("b");
+      expect(map.has(4)).toBe(false);
+      expect([...map]).toEqual([
+        [1, "a"],
+        [2, "b"],
+        [3, "c"],
+      ]);
+    });
+
+    it("should overwrite existing keys", () => {
+      const map = SortedMap.from([
+        [1, "a"],
+        [1, "z"],
+      ]);
+      const map2 = map.set(1, "y");
+
+      expect(map.get(1)).toBe("z"); // Original unchanged
+      expect(map2.get(1)).toBe("y");
+      expect(map2.size()).toBe(1);
+    });
+
+    it("should delete keys immutably", () => {
+      const map = SortedMap.from<string, number>([
+        ["a", 1],
+        ["b", 2],
+      ]);
+      const map2 = map.delete("a");
+
+      expect(map.has("a")).toBe(true);
+      expect(map2.has("a")).toBe(false);
+      expect(map2.size()).toBe(1);
+      expect(map.delete("z")).toBe(map);
+    });
+
+    it("should store falsy values", () => {
+      const map = new SortedMap<string, number | undefined>().set("zero", 0).set("none", undefined);
+
+      expect(map.get("zero")).toBe(0);
+      expect(map.has("none")).toBe(true);
+    });
+  });
+
+  describe("navigation and iteration", () => {
+    const map = SortedMap.from<number, string>([
+      [30, "c"],
+      [10, "a"],
+      [20, "b"],
+    ]);
+
+    it("should navigate by key", () => {
+      expect(map.floor(25)).toEqual([20, "b"]);
+      expect(map.ceiling(25)).toEqual([30, "c"]);
+      expect(map.lower(20)).toEqual([10, "a"]);
+      expect(map.higher(20)).toEqual([30, "c"]);
+      expect(map.higher(30)).toBeUndefined();
+      expect(map.first()).toEqual([10, "a"]);
+      expect(map.last()).toEqual([30, "c"]);
+    });
+
+    it("should iterate keys, values and entries in order", () => {
+      expect([...map.keys()]).toEqual([10, 20, 30]);
+      expect([...map.values()]).toEqual(["a", "b", "c"]);
+      expect([...map.entries()]).toEqual([...map]);
+    });
+
+    it("should order keys with a custom comparator", () => {
+      const descending = SortedMap.from<number, string>(
+        [
+          [1, "a"],
+          [2, "b"],
+        ],
+        (a, b) => b - a
+      );
+      expect([...descending.keys()]).toEqual([2, 1]);
+    });
   });
 });
 
@@ -129,6 +607,14 @@ describe("Trie", () => {
       expect(withHel).not.toContain("world");
     });
 
+    it("should count words with prefix", () => {
+      const trie = new Trie().insert("hello").insert("help").insert("heap").insert("help");
+
+      expect(trie.size()).toBe(3);
+      expect(trie.countWordsWithPrefix("hel")).toBe(2);
+      expect(trie.remove("help").countWordsWithPrefix("hel")).toBe(1);
+    });
+
     it("should handle empty prefix", () => {
       const trie = new Trie();
       const trie2 = trie.insert("hello").insert("world");
@@ -157,6 +643,465 @@ describe("Trie", () => {
       expect(trie2.findWordsWithPrefix("test")).toEqual(["test", "testing"]);
     });
   });
+
+  describe("fuzzy search", () => {
+    const trie = new Trie().insert("hello").insert("help").insert("helm").insert("world").insert("word");
+
+    it("should find words within an edit distance", () => {
+      expect(trie.findWithinDistance("hello", 0)).toEqual(["hello"]);
+      expect(trie.findWithinDistance("helo", 1)).toEqual(["hello", "helm", "help"]);
+      expect(trie.findWithinDistance("wrld", 1)).toEqual(["world"]);
+      expect(trie.findWithinDistance("wrd", 1)).toEqual(["word"]);
+      expect(trie.findWithinDistance("xyz", 1)).toEqual([]);
+    });
+
+    it("should order matches by distance", () => {
+      expect(trie.findWithinDistance("helps", 2)).toEqual(["help", "hello", "helm"]);
+    });
+
+    it("should apply the trie key mapping to the query", () => {
+      expect(trie.findWithinDistance("HELO", 1)).toContain("hello");
+      expect(new Trie().insert("").findWithinDistance("a", 1)).toEqual([""]);
+    });
+
+    it("should reject invalid distances", () => {
+      expect(() => trie.findWithinDistance("help", -1)).toThrow();
+      expect(() => trie.findWithinDistance("help", 1.5)).toThrow();
+    });
+  });
+
+  describe("wildcard matching", () => {
+    const trie = new Trie().insert("cat").insert("cut").insert("cart").insert("coat").insert("ct");
+
+    it("should match single-character wildcards", () => {
+      expect(trie.match("c?t")).toEqual(["cat", "cut"]);
+      expect(trie.match("c??t")).toEqual(["cart", "coat"]);
+      expect(trie.match("?")).toEqual([]);
+    });
+
+    it("should match multi-character wildcards", () => {
+      expect(trie.match("c*t").sort()).toEqual(["cart", "cat", "coat", "ct", "cut"]);
+      expect(trie.match("*a*").sort()).toEqual(["cart", "cat", "coat"]);
+      expect(trie.match("c**r*")).toEqual(["cart"]);
+      expect(trie.match("*")).toHaveLength(5);
+    });
+
+    it("should match whole words only", () => {
+      expect(trie.match("ca")).toEqual([]);
+      expect(trie.match("cart")).toEqual(["cart"]);
+      expect(trie.match("CA?")).toEqual(["cat"]);
+    });
+  });
+
+  describe("key options", () => {
+    it("should return the originally inserted spelling", () => {
+      const trie = new Trie().insert("Hello").insert("HELP");
+
+      expect(trie.findWordsWithPrefix("he")).toEqual(["Hello", "HELP"]);
+      expect(trie.insert("help").findWordsWithPrefix("help")).toEqual(["help"]);
+    });
+
+    it("should support case-sensitive matching", () => {
+      const trie = new Trie({ caseSensitive: true }).insert("Apple").insert("apple");
+
+      expect(trie.size()).toBe(2);
+      expect(trie.contains("APPLE")).toBe(false);
+      expect(trie.findWordsWithPrefix("A")).toEqual(["Apple"]);
+      expect(trie.remove("apple").contains("Apple")).toBe(true);
+    });
+
+    it("should fold case using a locale", () => {
+      const turkish = new Trie({ locale: "tr" }).insert("İstanbul");
+      const plain = new Trie().insert("İstanbul");
+
+      expect(turkish.contains("istanbul")).toBe(true);
+      expect(plain.contains("istanbul")).toBe(false);
+    });
+
+    it("should apply unicode normalization", () => {
+      const composed = "caf\u00e9";
+      const decomposed = "cafe\u0301";
+      const trie = new Trie({ normalization: "NFC" }).insert(decomposed);
+
+      expect(trie.contains(composed)).toBe(true);
+      expect(new Trie().insert(decomposed).contains(composed)).toBe(false);
+      expect(new Trie({ normalization: "NFKC" }).insert("\ufb01le").contains("file")).toBe(true);
+    });
+
+    it("should fold accents", () => {
+      const trie = new Trie({ foldAccents: true }).insert("Café").insert("naïve");
+
+      expect(trie.contains("cafe")).toBe(true);
+      expect(trie.contains("NAIVE")).toBe(true);
+      expect(trie.findWordsWithPrefix("caf")).toEqual(["Café"]);
+    });
+
+    it("should iterate by grapheme cluster", () => {
+      const word = "e\u0301clair";
+      const byGrapheme = new Trie({ graphemes: true }).insert(word);
+      const byCodePoint = new Trie().insert(word);
+
+      expect(byGrapheme.containsPrefix("e")).toBe(false);
+      expect(byGrapheme.containsPrefix("e\u0301")).toBe(true);
+      expect(byCodePoint.containsPrefix("e")).toBe(true);
+    });
+
+    it("should keep options across updates", () => {
+      const trie = new Trie({ caseSensitive: true }).insert("A").insert("b").remove("b");
+      expect(trie.contains("a")).toBe(false);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should not change older versions on insert", () => {
+      const trie = new Trie().insert("car");
+      const trie2 = trie.insert("cart").insert("ca");
+
+      expect(trie.contains("cart")).toBe(false);
+      expect(trie.contains("ca")).toBe(false);
+      expect(trie.findWordsWithPrefix("ca")).toEqual(["car"]);
+      expect(trie2.findWordsWithPrefix("ca")).toEqual(["ca", "car", "cart"]);
+    });
+
+    it("should allow branching from a shared version", () => {
+      const base = new Trie().insert("tea");
+      const left = base.insert("team");
+      const right = base.insert("teal");
+
+      expect(left.contains("teal")).toBe(false);
+      expect(right.contains("team")).toBe(false);
+      expect(base.findWordsWithPrefix("tea")).toEqual(["tea"]);
+    });
+  });
+
+  describe("removal", () => {
+    it("should remove words immutably", () => {
+      const trie = new Trie().insert("test").insert("testing").insert("tester");
+      const trie2 = trie.remove("testing");
+
+      expect(trie.contains("testing")).toBe(true); // Original unchanged
+      expect(trie2.contains("testing")).toBe(false);
+      expect(trie2.contains("test")).toBe(true);
+      expect(trie2.contains("tester")).toBe(true);
+    });
+
+    it("should keep longer words when removing a prefix word", () => {
+      const trie = new Trie().insert("test").insert("testing").remove("test");
+
+      expect(trie.contains("test")).toBe(false);
+      expect(trie.containsPrefix("test")).toBe(true);
+      expect(trie.findWordsWithPrefix("")).toEqual(["testing"]);
+    });
+
+    it("should prune branches left without words", () => {
+      const trie = new Trie().insert("abc").insert("abd").remove("abc");
+
+      expect(trie.containsPrefix("abc")).toBe(false);
+      expect(trie.containsPrefix("ab")).toBe(true);
+      expect(trie.remove("abd").containsPrefix("a")).toBe(false);
+    });
+
+    it("should return the same trie when the word is absent", () => {
+      const trie = new Trie().insert("hello");
+      expect(trie.remove("help")).toBe(trie);
+      expect(trie.remove("hell")).toBe(trie);
+    });
+  });
+});
+
+describe("TrieMap", () => {
+  const trie = TrieMap.from<string>([
+    ["hello", "greeting", 90],
+    ["help", "assist", 40],
+    ["helmet", "gear", 65],
+    ["heap", "structure", 10],
+    ["world", "planet", 100],
+  ]);
+
+  describe("values", () => {
+    it("should store and retrieve values and weights", () => {
+      expect(trie.get("hello")).toBe("greeting");
+      expect(trie.getWeight("help")).toBe(40);
+      expect(trie.get("hel")).toBeUndefined();
+      expect(trie.getWeight("missing")).toBeUndefined();
+      expect(trie.size()).toBe(5);
+    });
+
+    it("should replace entries immutably", () => {
+      const trie2 = trie.set("help", "support", 95);
+
+      expect(trie.get("help")).toBe("assist"); // Original unchanged
+      expect(trie2.get("help")).toBe("support");
+      expect(trie2.getWeight("help")).toBe(95);
+      expect(trie2.size()).toBe(5);
+    });
+
+    it("should delete entries", () => {
+      const trie2 = trie.delete("hello");
+
+      expect(trie2.contains("hello")).toBe(false);
+      expect(trie2.size()).toBe(4);
+      expect(trie.delete("missing")).toBe(trie);
+    });
+
+    it("should default the weight to zero and reject invalid weights", () => {
+      expect(new TrieMap<number>().set("a", 1).getWeight("a")).toBe(0);
+      expect(() => new TrieMap<number>().set("a", 1, NaN)).toThrow(TypeError);
+    });
+
+    it("should iterate over entries", () => {
+      expect(new Map(trie)).toEqual(
+        new Map([
+          ["hello", "greeting"],
+          ["help", "assist"],
+          ["helmet", "gear"],
+          ["heap", "structure"],
+          ["world", "planet"],
+        ])
+      );
+    });
+  });
+
+  describe("prefix counts", () => {
+    it("should count words with a prefix", () => {
+      expect(trie.countWordsWithPrefix("")).toBe(5);
+      expect(trie.countWordsWithPrefix("he")).toBe(4);
+      expect(trie.countWordsWithPrefix("hel")).toBe(3);
+      expect(trie.countWordsWithPrefix("help")).toBe(1);
+      expect(trie.countWordsWithPrefix("x")).toBe(0);
+    });
+
+    it("should update counts after removal", () => {
+      const trie2 = trie.delete("help").delete("heap");
+      expect(trie2.countWordsWithPrefix("he")).toBe(2);
+      expect(trie.countWordsWithPrefix("he")).toBe(4);
+    });
+  });
+
+  describe("ranked autocomplete", () => {
+    it("should return the top-k words by weight", () => {
+      expect(trie.findWordsWithPrefix("he", { limit: 2, sortBy: "weight" })).toEqual(["hello", "helmet"]);
+      expect(trie.findWordsWithPrefix("", { sortBy: "weight" })).toEqual([
+        "world",
+        "hello",
+        "helmet",
+        "help",
+        "heap",
+      ]);
+    });
+
+    it("should break weight ties alphabetically", () => {
+      const tied = TrieMap.from<number>([
+        ["cb", 0, 5],
+        ["ca", 0, 5],
+        ["cc", 0, 7],
+      ]);
+      expect(tied.findWordsWithPrefix("c", { limit: 2, sortBy: "weight" })).toEqual(["cc", "ca"]);
+    });
+
+    it("should agree with a full sort for every limit", () => {
+      const weighted = Array.from({ length: 200 }, (_, i): [string, number, number] => [
+        `w${(i * 7919) % 1000}`,
+        i,
+        (i * 31) % 17,
+      ]);
+      const ranked = TrieMap.from<number>(weighted);
+      const all = ranked.findWordsWithPrefix("w", { sortBy: "weight" });
+
+      for (const limit of [1, 5, 17, 199, 200, 500]) {
+        expect(ranked.findWordsWithPrefix("w", { limit, sortBy: "weight" })).toEqual(all.slice(0, limit));
+      }
+    });
+
+    it("should reject limits that are not non-negative integers", () => {
+      expect(() => trie.findWordsWithPrefix("he", { limit: -1, sortBy: "weight" })).toThrow(Error);
+      expect(() => trie.findWordsWithPrefix("he", { limit: 1.5 })).toThrow(Error);
+      expect(() => trie.findEntriesWithPrefix("he", { limit: NaN })).toThrow(Error);
+      expect(() => new RadixTrie().findWordsWithPrefix("", { limit: Infinity })).toThrow(Error);
+    });
+
+    it("should reflect updated weights", () => {
+      const trie2 = trie.set("heap", "structure", 99);
+      expect(trie2.findWordsWithPrefix("he", { limit: 1, sortBy: "weight" })).toEqual(["heap"]);
+    });
+
+    it("should sort alphabetically and honour limits", () => {
+      expect(trie.findWordsWithPrefix("he", { sortBy: "alphabetical" })).toEqual(["heap", "hello", "helmet", "help"]);
+      expect(trie.findWordsWithPrefix("he", { limit: 2, sortBy: "alphabetical" })).toEqual(["heap", "hello"]);
+      expect(trie.findWordsWithPrefix("he", { limit: 0 })).toEqual([]);
+      expect(trie.findWordsWithPrefix("he", { limit: 3 })).toHaveLength(3);
+    });
+
+    it("should accept key options", () => {
+      const folded = TrieMap.from([["Résumé", 1]], { foldAccents: true });
+      expect(folded.get("resume")).toBe(1);
+      expect(folded.set("x", 2).get("RESUME")).toBe(1);
+    });
+
+    it("should return entries with values", () => {
+      expect(trie.findEntriesWithPrefix("hel", { limit: 1, sortBy: "weight" })).toEqual([["hello", "greeting"]]);
+    });
+  });
+});
+
+describe("RadixTrie", () => {
+  const words = ["romane", "romanus", "romulus", "rubens", "ruber", "rubicon", "rubicundus"];
+  const trie = words.reduce((t, word) => t.insert(word), new RadixTrie());
+
+  describe("insertion and search", () => {
+    it("should find inserted words and prefixes", () => {
+      expect(trie.contains("romanus")).toBe(true);
+      expect(trie.contains("roman")).toBe(false);
+      expect(trie.contains("rubiconx")).toBe(false);
+      expect(trie.containsPrefix("roma")).toBe(true);
+      expect(trie.containsPrefix("rube")).toBe(true);
+      expect(trie.containsPrefix("rox")).toBe(false);
+      expect(trie.size()).toBe(7);
+    });
+
+    it("should compress single-child chains into edge labels", () => {
+      // Root, r, om, an, e, us, ulus, ub, e, ns, r, ic, on, undus
+      expect(trie.nodeCount()).toBe(14);
+      expect(new RadixTrie().insert("compression").nodeCount()).toBe(2);
+      expect(new RadixTrie().nodeCount()).toBe(1);
+    });
+
+    it("should split an edge when inserting a prefix of it", () => {
+      const trie2 = new RadixTrie().insert("testing").insert("test");
+
+      expect(trie2.contains("test")).toBe(true);
+      expect(trie2.contains("testing")).toBe(true);
+      expect(trie2.contains("tes")).toBe(false);
+      expect(trie2.findWordsWithPrefix("te")).toEqual(["test", "testing"]);
+    });
+
+    it("should be immutable", () => {
+      const trie2 = trie.insert("rubric");
+
+      expect(trie.contains("rubric")).toBe(false);
+      expect(trie2.contains("rubric")).toBe(true);
+      expect(trie2.size()).toBe(8);
+    });
+  });
+
+  describe("prefix operations", () => {
+    it("should find and count words with a prefix", () => {
+      expect(trie.findWordsWithPrefix("rubi")).toEqual(["rubicon", "rubicundus"]);
+      expect(trie.findWordsWithPrefix("rom", { sortBy: "alphabetical" })).toEqual(["romane", "romanus", "romulus"]);
+      expect(trie.findWordsWithPrefix("rom", { limit: 2, sortBy: "weight" })).toEqual(["romane", "romanus"]);
+      expect(trie.findWordsWithPrefix("x")).toEqual([]);
+      expect(trie.countWordsWithPrefix("rub")).toBe(4);
+      expect(trie.countWordsWithPrefix("rubic")).toBe(2);
+      expect(trie.countWordsWithPrefix("rubix")).toBe(0);
+    });
+
+    it("should find the longest stored prefix of an input", () => {
+      const routes = new RadixTrie({ caseSensitive: true }).insert("/").insert("/api").insert("/api/users");
+
+      expect(routes.longestPrefixMatch("/api/users/42")).toBe("/api/users");
+      expect(routes.longestPrefixMatch("/api/user")).toBe("/api");
+      expect(routes.longestPrefixMatch("/static/app.js")).toBe("/");
+      expect(routes.longestPrefixMatch("api")).toBeUndefined();
+      expect(new RadixTrie().longestPrefixMatch("anything")).toBeUndefined();
+    });
+  });
+
+  describe("key options", () => {
+    it("should apply the same key mapping as Trie", () => {
+      const folded = new RadixTrie({ foldAccents: true }).insert("Café").insert("cafeteria");
+
+      expect(folded.contains("CAFE")).toBe(true);
+      expect(folded.findWordsWithPrefix("caf", { sortBy: "alphabetical" })).toEqual(["Café", "cafeteria"]);
+      expect(folded.longestPrefixMatch("cafés")).toBe("Café");
+    });
+
+    it("should not split edges inside a grapheme cluster", () => {
+      const decomposed = "cafe\u0301";
+      const trie2 = new RadixTrie({ graphemes: true }).insert(decomposed);
+
+      expect(trie2.containsPrefix("caf")).toBe(true);
+      expect(trie2.containsPrefix("cafe")).toBe(false);
+      expect(trie2.insert("cafe").findWordsWithPrefix("caf", { sortBy: "alphabetical" })).toEqual(["cafe", decomposed]);
+      expect(trie2.longestPrefixMatch(decomposed + "s")).toBe(decomposed);
+    });
+
+    it("should not split edges inside a surrogate pair", () => {
+      // Both emoji start with the same high surrogate
+      const trie2 = new RadixTrie().insert("a\u{1F600}").insert("a\u{1F601}");
+
+      expect(trie2.containsPrefix("a\uD83D")).toBe(false);
+      expect(trie2.findWordsWithPrefix("a", { sortBy: "alphabetical" })).toEqual(["a\u{1F600}", "a\u{1F601}"]);
+      expect(trie2.remove("a\u{1F600}").longestPrefixMatch("a\u{1F601}!")).toBe("a\u{1F601}");
+    });
+
+    it("should segment only the searched key, not the stored edge labels", () => {
+      const trie2 = words.reduce((t, word) => t.insert(word), new RadixTrie({ graphemes: true }));
+      // Intl.Segmenter is missing from the ES2020 declarations
+      const { Segmenter } = Intl as typeof Intl & { Segmenter: { prototype: { segment(input: string): unknown } } };
+      const segment = jest.spyOn(Segmenter.prototype, "segment");
+
+      try {
+        expect(trie2.contains("rubicundus")).toBe(true);
+        expect(trie2.longestPrefixMatch("romulusx")).toBe("romulus");
+        expect(segment).toHaveBeenCalledTimes(2);
+      } finally {
+        segment.mockRestore();
+      }
+    });
+
+    it("should break weight ties by the inserted words, unlike alphabetical key order", () => {
+      const mixed = new RadixTrie().insert("apple").insert("Banana");
+
+      expect(mixed.findWordsWithPrefix("", { sortBy: "weight" })).toEqual(["Banana", "apple"]);
+      expect(mixed.findWordsWithPrefix("", { sortBy: "alphabetical" })).toEqual(["apple", "Banana"]);
+    });
+  });
+
+  describe("removal", () => {
+    it("should remove words and merge the remaining chain", () => {
+      const trie2 = trie.remove("romulus");
+
+      expect(trie2.contains("romulus")).toBe(false);
+      expect(trie2.containsPrefix("romu")).toBe(false);
+      expect(trie2.size()).toBe(6);
+      // "om" and "an" merge into "oman"
+      expect(trie2.nodeCount()).toBe(12);
+      expect(trie.contains("romulus")).toBe(true); // Original unchanged
+    });
+
+    it("should return the same trie when the word is absent", () => {
+      expect(trie.remove("roman")).toBe(trie);
+      expect(trie.remove("missing")).toBe(trie);
+    });
+
+    it("should agree with Trie over random inserts and removals", () => {
+      let seed = 7;
+      const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+      const randomWord = () =>
+        Array.from({ length: 1 + Math.floor(random() * 5) }, () => "abc"[Math.floor(random() * 3)]).join("");
+
+      let radix = new RadixTrie();
+      let model = new Trie();
+      for (let i = 0; i < 400; i++) {
+        const word = randomWord();
+        if (random() < 0.6) {
+          radix = radix.insert(word);
+          model = model.insert(word);
+        } else {
+          radix = radix.remove(word);
+          model = model.remove(word);
+        }
+      }
+
+      expect(radix.size()).toBe(model.size());
+      expect(radix.findWordsWithPrefix("", { sortBy: "alphabetical" })).toEqual(
+        model.findWordsWithPrefix("", { sortBy: "alphabetical" })
+      );
+      for (const prefix of ["a", "ab", "bca", "cc", "abcab"]) {
+        expect(radix.countWordsWithPrefix(prefix)).toBe(model.countWordsWithPrefix(prefix));
+      }
+    });
+  });
 });
 
 describe("GeneralTree", () => {
@@ -212,6 +1157,237 @@ describe("GeneralTree", () => {
       expect(tree2.size()).toBe(1);
       expect([...tree2]).toEqual(["root"]);
     });
+
+    it("should find parents with a custom equality", () => {
+      interface Folder {
+        id: number;
+        name: string;
+      }
+      const byId = (a: Folder, b: Folder) => a.id === b.id;
+      const tree = new GeneralTree<Folder>(byId)
+        .insert({ id: 1, name: "root" })
+        .insertChild({ id: 1, name: "" }, { id: 2, name: "docs" })
+        .insertChild({ id: 2, name: "" }, { id: 3, name: "notes" });
+
+      expect(tree.size()).toBe(3);
+      expect([...tree].map(({ name }) => name)).toEqual(["root", "docs", "notes"]);
+      expect(tree.removeSubtree([0, 0]).insertChild({ id: 2, name: "" }, { id: 4, name: "drafts" }).size()).toBe(3);
+    });
+
+    it("should accept an equality per call", () => {
+      const tree = new GeneralTree<string>().insert("Root");
+
+      expect(tree.insertChild("root", "child").size()).toBe(1);
+      expect(tree.insertChild("root", "child", (a, b) => a.toLowerCase() === b.toLowerCase()).size()).toBe(2);
+      expect(() => new GeneralTree<string>(null as any)).toThrow(TypeError);
+    });
+  });
+
+  describe("path addressing", () => {
+    //        /
+    //      /   \
+    //    src   test
+    //     |      |
+    //   utils  utils
+    const folders = new GeneralTree<string>()
+      .insert("/")
+      .insertChildAt([], "src")
+      .insertChildAt([], "test")
+      .insertChildAt([0], "utils")
+      .insertChildAt([1], "utils");
+
+    it("should insert children by path even when values repeat", () => {
+      expect(folders.size()).toBe(5);
+      expect([...folders.preorder()]).toEqual(["/", "src", "utils", "test", "utils"]);
+      expect(folders.insertChildAt([1, 0], "helpers").nodeAt([1, 0, 0])?.value).toBe("helpers");
+      expect(folders.nodeAt([0, 0])?.children).toHaveLength(0);
+    });
+
+    it("should insert at a given position", () => {
+      const tree = folders.insertChildAt([], "docs", 0);
+      expect(tree.nodeAt([0])?.value).toBe("docs");
+      expect(tree.nodeAt([1])?.value).toBe("src");
+    });
+
+    it("should reject child indexes outside the parent's children", () => {
+      expect(folders.insertChildAt([], "docs", 2).nodeAt([2])?.value).toBe("docs");
+      expect(() => folders.insertChildAt([], "docs", 3)).toThrow(RangeError);
+      expect(() => folders.insertChildAt([], "docs", -1)).toThrow(RangeError);
+      expect(() => folders.insertChildAt([0], "docs", 0.5)).toThrow(RangeError);
+      expect(folders.moveSubtree([0, 0], [1], 1).nodeAt([1, 1])?.value).toBe("utils");
+      expect(() => folders.moveSubtree([0, 0], [1], 2)).toThrow(RangeError);
+      // The moved subtree's old parent has one child fewer once it is detached
+      expect(() => folders.moveSubtree([0, 0], [0], 1)).toThrow(RangeError);
+      expect(() => folders.moveSubtree([1], [0], NaN)).toThrow(RangeError);
+    });
+
+    it("should ignore paths that do not exist", () => {
+      expect(folders.nodeAt([2])).toBeUndefined();
+      expect(folders.nodeAt([0, 0, 0])).toBeUndefined();
+      expect(folders.insertChildAt([5], "x")).toBe(folders);
+      expect(folders.replaceValue([0, 1], "x")).toBe(folders);
+      expect(folders.removeSubtree([3])).toBe(folders);
+      expect(folders.moveSubtree([0, 2], [1])).toBe(folders);
+      expect(folders.moveSubtree([1], [0, 0, 0])).toBe(folders);
+      expect(folders.replaceValue([-1], "x")).toBe(folders);
+      expect(folders.removeSubtree([0.5])).toBe(folders);
+      const empty = new GeneralTree<string>();
+      expect(empty.insertChildAt([], "x")).toBe(empty);
+      expect(empty.replaceValue([], "x")).toBe(empty);
+    });
+
+    it("should find parents", () => {
+      expect(folders.parentOf([1, 0])?.value).toBe("test");
+      expect(folders.parentOf([0])?.value).toBe("/");
+      expect(folders.parentOf([])).toBeUndefined();
+      expect(folders.parentOf([0, 4])).toBeUndefined();
+    });
+
+    it("should replace values immutably", () => {
+      const tree = folders.replaceValue([1, 0], "fixtures");
+
+      expect([...tree.preorder()]).toEqual(["/", "src", "utils", "test", "fixtures"]);
+      expect(folders.nodeAt([1, 0])?.value).toBe("utils"); // Original unchanged
+      expect(tree.nodeAt([0])).toBe(folders.nodeAt([0])); // Untouched subtrees are shared
+    });
+
+    it("should remove subtrees", () => {
+      const tree = folders.removeSubtree([0]);
+
+      expect(tree.size()).toBe(3);
+      expect([...tree.preorder()]).toEqual(["/", "test", "utils"]);
+      expect(folders.removeSubtree([]).size()).toBe(0);
+      expect(folders.size()).toBe(5); // Original unchanged
+    });
+
+    it("should move subtrees", () => {
+      const tree = folders.moveSubtree([1], [0, 0]);
+
+      expect(tree.size()).toBe(5);
+      expect([...tree.preorder()]).toEqual(["/", "src", "utils", "test", "utils"]);
+      expect(tree.nodeAt([0, 0, 0, 0])?.value).toBe("utils");
+      expect(tree.parentOf([0, 0, 0])?.value).toBe("utils");
+    });
+
+    it("should resolve the target path before the moved subtree is detached", () => {
+      const tree = folders.moveSubtree([0, 0], [1], 0);
+
+      expect(tree.nodeAt([0])?.children).toHaveLength(0);
+      expect(tree.nodeAt([1])?.children.map(({ value }) => value)).toEqual(["utils", "utils"]);
+
+      const reordered = folders.insertChildAt([], "docs").moveSubtree([0], [2]);
+      expect([...reordered.levelOrder()]).toEqual(["/", "test", "docs", "utils", "src", "utils"]);
+    });
+
+    it("should reject moving a subtree into itself", () => {
+      expect(() => folders.moveSubtree([0], [0, 0])).toThrow(Error);
+      expect(() => folders.moveSubtree([0], [0])).toThrow(Error);
+      expect(() => folders.moveSubtree([], [1])).toThrow(Error);
+    });
+  });
+
+  describe("queries and transformations", () => {
+    interface Employee {
+      name: string;
+      salary: number;
+    }
+
+    //            ceo
+    //          /     \
+    //       cto       cfo
+    //      /   \        \
+    //   alice  bob    carol
+    const org = new GeneralTree<Employee>()
+      .insert({ name: "ceo", salary: 300 })
+      .insertChildAt([], { name: "cto", salary: 200 })
+      .insertChildAt([], { name: "cfo", salary: 180 })
+      .insertChildAt([0], { name: "alice", salary: 120 })
+      .insertChildAt([0], { name: "bob", salary: 110 })
+      .insertChildAt([1], { name: "carol", salary: 90 });
+    const named = (name: string) => (employee: Employee) => employee.name === name;
+
+    it("should map values keeping the shape", () => {
+      const names = org.map(({ name }) => name);
+
+      expect([...names.preorder()]).toEqual(["ceo", "cto", "alice", "bob", "cfo", "carol"]);
+      expect(names.size()).toBe(6);
+      expect(names.nodeAt([1, 0])?.value).toBe("carol");
+    });
+
+    it("should prune subtrees that fail the filter", () => {
+      const names = org.map(({ name }) => name);
+      const tested: string[] = [];
+      const withoutCto = names.filter((name) => {
+        tested.push(name);
+        return name !== "cto";
+      });
+
+      expect([...withoutCto.preorder()]).toEqual(["ceo", "cfo", "carol"]);
+      expect(withoutCto.size()).toBe(3);
+      expect(tested).not.toContain("alice");
+      expect(names.filter(() => true)).toBe(names);
+      expect(names.filter(() => false).size()).toBe(0);
+    });
+
+    it("should fold bottom-up", () => {
+      const payroll = org.fold<number>(({ salary }, reports) => reports.reduce((sum, cost) => sum + cost, salary));
+      const shape = org.fold<string>(({ name }, children) => (children.length ? `${name}(${children})` : name));
+
+      expect(payroll).toBe(1000);
+      expect(shape).toBe("ceo(cto(alice,bob),cfo(carol))");
+      expect(new GeneralTree<Employee>().fold(() => 1)).toBeUndefined();
+    });
+
+    it("should reduce in preorder", () => {
+      expect(org.reduce((names, { name }) => [...names, name], [] as string[])).toEqual([
+        "ceo",
+        "cto",
+        "alice",
+        "bob",
+        "cfo",
+        "carol",
+      ]);
+      expect(new GeneralTree<number>().reduce((a, b) => a + b, 0)).toBe(0);
+    });
+
+    it("should find values and paths", () => {
+      expect(org.find(({ salary }) => salary < 115)?.name).toBe("bob");
+      expect(org.find(named("dave"))).toBeUndefined();
+      expect(org.pathTo(named("carol"))).toEqual([1, 0]);
+      expect(org.pathTo(named("ceo"))).toEqual([]);
+      expect(org.pathTo(named("dave"))).toBeUndefined();
+    });
+
+    it("should list leaves and compute height", () => {
+      expect([...org.leaves()].map(({ name }) => name)).toEqual(["alice", "bob", "carol"]);
+      expect(org.height()).toBe(3);
+      expect(new GeneralTree<number>().height()).toBe(0);
+      expect(new GeneralTree<number>().insert(1).height()).toBe(1);
+    });
+
+    it("should find lowest common ancestors", () => {
+      const alice = org.pathTo(named("alice"))!;
+      const bob = org.pathTo(named("bob"))!;
+      const carol = org.pathTo(named("carol"))!;
+
+      expect(org.nodeAt(org.lowestCommonAncestor(alice, bob)!)?.value.name).toBe("cto");
+      expect(org.lowestCommonAncestor(alice, carol)).toEqual([]);
+      expect(org.lowestCommonAncestor([0], alice)).toEqual([0]);
+      expect(org.lowestCommonAncestor(alice, [4])).toBeUndefined();
+    });
+
+    it("should handle deep trees without overflowing the stack", () => {
+      let tree = new GeneralTree<number>().insert(0);
+      let path: number[] = [];
+      for (let i = 1; i < 3000; i++) {
+        tree = tree.insertChildAt(path, i);
+        path = [...path, 0];
+      }
+
+      expect(tree.height()).toBe(3000);
+      expect(tree.fold<number>((value, [below = 0]) => value + below)).toBe((2999 * 3000) / 2);
+      expect([...tree.leaves()]).toEqual([2999]);
+    });
   });
 
   describe("traversal", () => {
@@ -229,5 +1405,35 @@ describe("GeneralTree", () => {
       expect(values.slice(1, 3)).toEqual(expect.arrayContaining(["child1", "child2"]));
       expect(values.slice(3)).toEqual(expect.arrayContaining(["grandchild1", "grandchild2"]));
     });
+
+    it("should perform depth-first traversals", () => {
+      const tree = new GeneralTree<string>()
+        .insert("a")
+        .insertChild("a", "b")
+        .insertChild("a", "c")
+        .insertChild("b", "d")
+        .insertChild("b", "e")
+        .insertChild("c", "f");
+
+      expect([...tree.preorder()]).toEqual(["a", "b", "d", "e", "c", "f"]);
+      expect([...tree.postorder()]).toEqual(["d", "e", "b", "f", "c", "a"]);
+    });
+
+    it("should report depth in level order", () => {
+      const tree = new GeneralTree<string>().insert("a").insertChild("a", "b").insertChild("b", "c");
+
+      expect([...tree.levelOrderWithDepth()]).toEqual([
+        { value: "a", depth: 0 },
+        { value: "b", depth: 1 },
+        { value: "c", depth: 2 },
+      ]);
+    });
+
+    it("should handle empty trees", () => {
+      const tree = new GeneralTree<string>();
+      expect([...tree.preorder()]).toEqual([]);
+      expect([...tree.postorder()]).toEqual([]);
+      expect([...tree.levelOrderWithDepth()]).toEqual([]);
+    });
   });
 });